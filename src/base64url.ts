@@ -0,0 +1,17 @@
+// Shared by the server and opaqueClient(). OPAQUE messages, keys and the
+// plugin's own tokens are all unpadded base64url.
+
+export function toBase64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+export function fromBase64Url(base64: string): Uint8Array {
+	const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+	return Uint8Array.from(
+		atob(padded.replace(/-/g, "+").replace(/_/g, "/")),
+		(char) => char.charCodeAt(0),
+	);
+}
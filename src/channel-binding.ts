@@ -0,0 +1,94 @@
+// Shared by the server and opaqueClient(), which must build the exact same
+// string to sign for every request.
+
+import { fromBase64Url, toBase64Url } from "./base64url";
+
+export const CHANNEL_BINDING_HEADERS = {
+	timestamp: "x-opaque-timestamp",
+	nonce: "x-opaque-nonce",
+	signature: "x-opaque-signature",
+} as const;
+
+const CHANNEL_BINDING_LABEL = "better-auth-opaque:channel-binding:";
+
+export type SignedRequest = {
+	method: string;
+	// The path and query string of the request URL
+	path: string;
+	// Milliseconds since the epoch
+	timestamp: string;
+	nonce: string;
+	// The body exactly as sent, or an empty string
+	body: string | Uint8Array;
+};
+
+async function sha256(data: string | Uint8Array): Promise<Uint8Array> {
+	const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+	return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+/**
+ * Hashes the session key both sides derive from a login into the key that
+ * requests for the session are signed with. The server stores this hash,
+ * never the session key itself.
+ */
+export async function deriveChannelBindingKey(sessionKey: string): Promise<string> {
+	return toBase64Url(await sha256(`${CHANNEL_BINDING_LABEL}${sessionKey}`));
+}
+
+async function importBindingKey(
+	bindingKey: string,
+	usage: "sign" | "verify",
+): Promise<CryptoKey> {
+	return await crypto.subtle.importKey(
+		"raw",
+		fromBase64Url(bindingKey),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		[usage],
+	);
+}
+
+async function canonicalRequest(request: SignedRequest): Promise<Uint8Array> {
+	const bodyHash = toBase64Url(await sha256(request.body));
+	return new TextEncoder().encode(
+		[
+			request.method.toUpperCase(),
+			request.path,
+			request.timestamp,
+			request.nonce,
+			bodyHash,
+		].join("\n"),
+	);
+}
+
+export async function signRequest(
+	bindingKey: string,
+	request: SignedRequest,
+): Promise<string> {
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		await importBindingKey(bindingKey, "sign"),
+		await canonicalRequest(request),
+	);
+	return toBase64Url(new Uint8Array(signature));
+}
+
+export async function verifyRequestSignature(
+	bindingKey: string,
+	request: SignedRequest,
+	signature: string,
+): Promise<boolean> {
+	let signatureBytes: Uint8Array;
+	try {
+		signatureBytes = fromBase64Url(signature);
+	} catch {
+		return false;
+	}
+	return await crypto.subtle.verify(
+		"HMAC",
+		await importBindingKey(bindingKey, "verify"),
+		signatureBytes,
+		await canonicalRequest(request),
+	);
+}
@@ -1,103 +1,1172 @@
 import type { BetterAuthClientPlugin } from "@better-auth/core";
+import type { DBFieldAttribute } from "@better-auth/core/db";
+import type { InferFieldsInputClient } from "better-auth/db";
 import { client, ready } from "@serenity-kit/opaque";
+import {
+	CHANNEL_BINDING_HEADERS,
+	deriveChannelBindingKey,
+	signRequest,
+} from "./channel-binding";
+import { fromBase64Url, toBase64Url } from "./base64url";
+import { OPAQUE_ERROR_CODES, type OpaqueErrorCode } from "./error-codes";
+import {
+	checkPasswordPolicy,
+	passwordPolicyIssue,
+	type PasswordPolicyIssue,
+} from "./password-policy";
 import type { opaque } from "./server";
 
 type RegisterChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getRegisterChallenge"]>>
 type LoginChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getLoginChallenge"]>>
 type RegisterComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeRegistration"]>>
 type LoginComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeLogin"]>>
+type ChangePasswordChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getChangePasswordChallenge"]>>
+type ChangePasswordComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeChangePassword"]>>
+type VerifyPasswordChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getVerifyPasswordChallenge"]>>
+type VerifyPasswordComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeVerifyPassword"]>>
+type DeleteUserChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getDeleteUserChallenge"]>>
+type DeleteUserComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeDeleteUser"]>>
+type RequestEmailChangeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["requestEmailChange"]>>
+type ChangeEmailChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getChangeEmailChallenge"]>>
+type ChangeEmailComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeChangeEmail"]>>
+type RequestPasswordResetResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["requestPasswordReset"]>>
+type ResetPasswordChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getResetPasswordChallenge"]>>
+type ResetPasswordComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeResetPassword"]>>
+type RekeyChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getRekeyChallenge"]>>
+type RekeyComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeRekey"]>>
+type MigrationChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getMigrationChallenge"]>>
+type MigrationComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeMigration"]>>
+type LinkChallengeResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getLinkChallenge"]>>
+type LinkComplete = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["completeLink"]>>
+type GetVaultResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getVault"]>>
+type PutVaultResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["putVault"]>>
+type RotateVaultResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["rotateVault"]>>
+type PasswordPolicyResponse = Awaited<ReturnType<ReturnType<typeof opaque>["endpoints"]["getPasswordPolicy"]>>
+// The server's user.additionalFields, from `typeof auth` or its options
+type ServerUserFields<Auth> = (Auth extends { options: infer O } ? O : Auth) extends {
+	user?: { additionalFields?: infer Fields };
+}
+	? Fields extends Record<string, DBFieldAttribute>
+		? Fields
+		: {}
+	: {};
+// Without the server's type, any field is accepted and checked by the server
+type SignUpAdditionalFields<Auth> = unknown extends Auth
+	? { [field: string]: unknown }
+	: InferFieldsInputClient<ServerUserFields<Auth>>;
+// Besides OPAQUE_ERROR_CODES, the server may return Better Auth's own codes
+type OpaqueFetchError = {
+	code?: string;
+	message?: string;
+}
+type CredentialSignIn = {
+	token: string;
+	user: {
+		id: string;
+	};
+	// Added by the server while the user can still be migrated
+	opaqueMigration?: {
+		token: string;
+	};
+} | {
+	twoFactorRedirect: true;
+}
+
+export interface OpaqueClientOptions {
+	// Fall back to the emailAndPassword sign-in route when OPAQUE login fails,
+	// and move the user to OPAQUE if that succeeds. This sends the password to
+	// the server on failed logins, so only enable it while migrating. Can't be
+	// combined with expectedServerPublicKey.
+	credentialFallback?: boolean;
+	// The server's static public key, from getOpaqueServerPublicKeys. Logins
+	// with any other key are aborted before the proof is sent. Pass several
+	// keys while rotating the server key.
+	expectedServerPublicKey?: string | string[];
+	// Decides whether a new password has appeared in a data breach, when the
+	// server's password policy sets rejectBreached. Defaults to haveIBeenPwned.
+	breachedPasswordChecker?: (password: string) => Promise<boolean>;
+	// Where the key for signing requests to a bound session is kept, when the
+	// server enables channelBinding. Defaults to memory, so a bound session
+	// can't be used anymore after a reload. localStorage and sessionStorage fit.
+	channelBindingStorage?: ChannelBindingStorage;
+}
+
+export interface ChannelBindingStorage {
+	getItem: (key: string) => string | null | Promise<string | null>;
+	setItem: (key: string, value: string) => void | Promise<void>;
+	removeItem: (key: string) => void | Promise<void>;
+}
+
+const CHANNEL_BINDING_STORAGE_KEY = "better-auth-opaque:channel-binding-key";
+
+function memoryStorage(): ChannelBindingStorage {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => {
+			items.set(key, value);
+		},
+		removeItem: (key) => {
+			items.delete(key);
+		},
+	};
+}
+
+// Serializes a body the way fetch would, so the signature covers the bytes
+// actually sent. FormData gets a new boundary every time it is serialized.
+async function serializeBody(
+	body: unknown,
+): Promise<{ bytes: Uint8Array; contentType: string | null }> {
+	if (body === undefined || body === null || body === "") {
+		return { bytes: new Uint8Array(), contentType: null };
+	}
+	if (typeof body === "string") {
+		return { bytes: new TextEncoder().encode(body), contentType: null };
+	}
+	const request = new Request("http://localhost", {
+		method: "POST",
+		body: body as RequestInit["body"],
+	});
+	return {
+		bytes: new Uint8Array(await request.arrayBuffer()),
+		contentType: request.headers.get("content-type"),
+	};
+}
+
+// The headers that sign a request for a bound session
+async function signingHeaders(
+	bindingKey: string,
+	method: string,
+	url: string,
+	body: Uint8Array,
+): Promise<Record<string, string>> {
+	const { pathname, search } = new URL(url, "http://localhost");
+	const timestamp = Date.now().toString();
+	const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+	const signature = await signRequest(bindingKey, {
+		method,
+		path: `${pathname}${search}`,
+		timestamp,
+		nonce,
+		body,
+	});
+	return {
+		[CHANNEL_BINDING_HEADERS.timestamp]: timestamp,
+		[CHANNEL_BINDING_HEADERS.nonce]: nonce,
+		[CHANNEL_BINDING_HEADERS.signature]: signature,
+	};
+}
+
+// Errors raised by the client itself, shaped like the ones from the server
+function clientError(code: OpaqueErrorCode) {
+	return { code, message: OPAQUE_ERROR_CODES[code] };
+}
+
+/**
+ * Derives a purpose-scoped key from the export key returned by
+ * `signUp.opaque` and `signIn.opaque`, using HKDF-SHA-512 with the label as
+ * the info string. Different labels give independent keys, so one can
+ * encrypt notes while another wraps file keys without either revealing the
+ * other or the export key.
+ */
+export async function deriveExportSubkey(
+	exportKey: string,
+	label: string,
+	length = 32,
+): Promise<Uint8Array> {
+	if (!label) {
+		throw new Error("A label is required to derive a subkey");
+	}
+	const keyMaterial = fromBase64Url(exportKey);
+	const hkdfKey = await crypto.subtle.importKey("raw", keyMaterial, "HKDF", false, [
+		"deriveBits",
+	]);
+	const bits = await crypto.subtle.deriveBits(
+		{
+			name: "HKDF",
+			hash: "SHA-512",
+			salt: new Uint8Array(),
+			info: new TextEncoder().encode(label),
+		},
+		hkdfKey,
+		length * 8,
+	);
+	return new Uint8Array(bits);
+}
+
+/**
+ * Looks a password up in the Have I Been Pwned database. Only the first five
+ * characters of its SHA-1 hash are sent, and the response is padded so its
+ * size doesn't reveal the match either.
+ */
+export async function haveIBeenPwned(password: string): Promise<boolean> {
+	const digest = await crypto.subtle.digest(
+		"SHA-1",
+		new TextEncoder().encode(password),
+	);
+	const hash = Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	)
+		.join("")
+		.toUpperCase();
+	const response = await fetch(
+		`https://api.pwnedpasswords.com/range/${hash.slice(0, 5)}`,
+		{ headers: { "Add-Padding": "true" } },
+	);
+	if (!response.ok) {
+		throw new Error(`Failed to check the password: ${response.status}`);
+	}
+	const suffix = hash.slice(5);
+	return (await response.text()).split("\n").some((line) => {
+		const [lineSuffix, count] = line.trim().split(":");
+		// Padding entries have a count of 0
+		return lineSuffix === suffix && Number(count) > 0;
+	});
+}
+
+const VAULT_KEY_LABEL = "better-auth-opaque:vault";
+const VAULT_IV_LENGTH = 12;
+
+async function importVaultKey(exportKey: string): Promise<CryptoKey> {
+	const key = await deriveExportSubkey(exportKey, VAULT_KEY_LABEL);
+	return await crypto.subtle.importKey("raw", key, "AES-GCM", false, [
+		"encrypt",
+		"decrypt",
+	]);
+}
+
+// The vault is AES-GCM encrypted under a subkey of the export key, with the
+// IV prepended. The server only ever sees this ciphertext.
+async function encryptVault(exportKey: string, data: string): Promise<string> {
+	const iv = crypto.getRandomValues(new Uint8Array(VAULT_IV_LENGTH));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		await importVaultKey(exportKey),
+		new TextEncoder().encode(data),
+	);
+	return toBase64Url(new Uint8Array([...iv, ...new Uint8Array(ciphertext)]));
+}
+
+async function decryptVault(exportKey: string, ciphertext: string): Promise<string> {
+	const bytes = fromBase64Url(ciphertext);
+	const data = await crypto.subtle.decrypt(
+		{ name: "AES-GCM", iv: bytes.subarray(0, VAULT_IV_LENGTH) },
+		await importVaultKey(exportKey),
+		bytes.subarray(VAULT_IV_LENGTH),
+	);
+	return new TextDecoder().decode(data);
+}
+
+// Re-encrypts a vault handed out by the server before a re-registration
+async function rewrapVault(
+	vault: { ciphertext: string; version: number } | undefined,
+	previousExportKey: string,
+	exportKey: string,
+): Promise<{ ciphertext: string; version: number } | undefined> {
+	if (!vault) {
+		return undefined;
+	}
+	const data = await decryptVault(previousExportKey, vault.ciphertext);
+	return {
+		ciphertext: await encryptVault(exportKey, data),
+		version: vault.version,
+	};
+}
+
+// Pass `typeof auth` to type the user.additionalFields signUp.opaque takes,
+// like inferAdditionalFields does for Better Auth's own sign-up
+export const opaqueClient = <Auth = unknown>(options?: OpaqueClientOptions) => {
+	// The fallback sends the password itself, which pinning can't protect
+	if (options?.credentialFallback && options.expectedServerPublicKey !== undefined) {
+		throw new Error("credentialFallback can't be used with expectedServerPublicKey");
+	}
+	const expectedServerPublicKeys =
+		options?.expectedServerPublicKey === undefined
+			? undefined
+			: [options.expectedServerPublicKey].flat();
+	const isExpectedServer = (serverStaticPublicKey: string) =>
+		!expectedServerPublicKeys ||
+		expectedServerPublicKeys.includes(serverStaticPublicKey);
+	const breachedPasswordChecker =
+		options?.breachedPasswordChecker ?? haveIBeenPwned;
+	const channelBindingStorage = options?.channelBindingStorage ?? memoryStorage();
 
-export const opaqueClient = () => {
 	return {
 		id: "opaque",
+		fetchPlugins: [
+			{
+				id: "opaque-channel-binding",
+				name: "OPAQUE channel binding",
+				hooks: {
+					// Signs every request while the session is bound
+					async onRequest(context) {
+						const bindingKey = await channelBindingStorage.getItem(CHANNEL_BINDING_STORAGE_KEY);
+						if (!bindingKey) {
+							return context;
+						}
+						// JSON bodies are strings by now, anything else is sent as the
+						// bytes it was signed as
+						const { bytes, contentType } = await serializeBody(context.body);
+						if (typeof context.body !== "string" && bytes.length > 0) {
+							context.body = bytes;
+							if (contentType) {
+								context.headers.set("content-type", contentType);
+							}
+						}
+						const headers = await signingHeaders(
+							bindingKey,
+							context.method ?? "GET",
+							context.url.toString(),
+							bytes,
+						);
+						for (const [name, value] of Object.entries(headers)) {
+							context.headers.set(name, value);
+						}
+						return context;
+					},
+					async onResponse(context) {
+						const url = new URL(context.request.url.toString(), "http://localhost");
+						if (context.response.ok && url.pathname.endsWith("/sign-out")) {
+							await channelBindingStorage.removeItem(CHANNEL_BINDING_STORAGE_KEY);
+						}
+					},
+				},
+			},
+		],
 		getActions($fetch) {
+			// Checks a new password against the server's policy before it is
+			// registered, and returns the error to hand back if it fails
+			const checkNewPassword = async (password: string) => {
+				const policyResponse = await $fetch<PasswordPolicyResponse, OpaqueFetchError>("/opaque/password-policy", {
+					method: "GET",
+				});
+				if (policyResponse.error || !policyResponse.data) {
+					return policyResponse.error || clientError("PASSWORD_POLICY_FETCH_FAILED");
+				}
+				const policy = policyResponse.data;
+				const issues: PasswordPolicyIssue[] = checkPasswordPolicy(password, policy);
+				// Only worth a request once everything else passes
+				if (issues.length === 0 && policy.rejectBreached) {
+					try {
+						if (await breachedPasswordChecker(password)) {
+							issues.push(passwordPolicyIssue("PASSWORD_BREACHED"));
+						}
+					} catch {
+						return clientError("PASSWORD_BREACH_CHECK_FAILED");
+					}
+				}
+				if (issues.length > 0) {
+					return { ...clientError("PASSWORD_POLICY_VIOLATION"), issues, policy };
+				}
+				return null;
+			};
+
+			// Re-registers the password under the server's current key and key
+			// stretching profile with a rekey token, re-wrapping the vault with the
+			// new export key. Returns that key.
+			const reregister = async (token: string, password: string, exportKey: string) => {
+				await ready;
+				const { clientRegistrationState, registrationRequest } = client.startRegistration({
+					password,
+				})
+				const rekeyChallenge = await $fetch<RekeyChallengeResponse, OpaqueFetchError>("/opaque/rekey/challenge", {
+					method: "POST",
+					body: {
+						token,
+						registrationRequest,
+					},
+				});
+				if (rekeyChallenge.error || !rekeyChallenge.data || !rekeyChallenge.data.challenge) {
+					return { error: rekeyChallenge.error || clientError("CHALLENGE_FAILED") };
+				}
+				const { registrationRecord, exportKey: rekeyedExportKey } = client.finishRegistration({
+					clientRegistrationState,
+					password,
+					registrationResponse: rekeyChallenge.data.challenge,
+					keyStretching: rekeyChallenge.data.keyStretching,
+				})
+				// If the vault can't be re-wrapped, stay on the old key rather
+				// than leave the vault unreadable
+				let vault: Awaited<ReturnType<typeof rewrapVault>>;
+				try {
+					vault = await rewrapVault(rekeyChallenge.data.vault, exportKey, rekeyedExportKey);
+				} catch {
+					return { error: clientError("VAULT_DECRYPTION_FAILED") };
+				}
+				const rekeyComplete = await $fetch<RekeyComplete, OpaqueFetchError>("/opaque/rekey/complete", {
+					method: "POST",
+					body: {
+						token,
+						registrationRecord,
+						vault,
+					},
+				});
+				if (rekeyComplete.error) {
+					return { error: rekeyComplete.error };
+				}
+				return { exportKey: rekeyedExportKey, error: null };
+			};
+
 			return {
 				signUp: {
-					opaque: async ({ email, name, password }: {
+					opaque: async ({ email, username, name, password, callbackURL, ...additionalFields }: {
 						email: string;
+						// Required when the server signs in by username
+						username?: string;
 						name: string;
 						password: string;
-					}) => {
+						// Where the email verification link redirects to
+						callbackURL?: string;
+					} & SignUpAdditionalFields<Auth>) => {
+						const policyError = await checkNewPassword(password);
+						if (policyError) {
+							return {
+								error: policyError
+							}
+						}
 						await ready;
 						const { clientRegistrationState, registrationRequest } = client.startRegistration({
 							password
 						})
-						const challengeResponse = await $fetch<RegisterChallengeResponse>("/sign-up/opaque/challenge", {
+						const challengeResponse = await $fetch<RegisterChallengeResponse, OpaqueFetchError>("/sign-up/opaque/challenge", {
 							method: "POST",
 							body: {
 								email,
+								username,
 								registrationRequest
 							},
 						});
 						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
 							return {
-								error: challengeResponse.error || {
-									message: "Failed to get registration challenge"
-								}
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
 							}
 						}
-						const { challenge: registrationResponse } = challengeResponse.data;
-						const { registrationRecord } = client.finishRegistration({
+						const { challenge: registrationResponse, keyStretching } = challengeResponse.data;
+						const { registrationRecord, exportKey } = client.finishRegistration({
 							clientRegistrationState,
 							password,
 							registrationResponse,
+							keyStretching,
 						})
-						return await $fetch<RegisterComplete>("/sign-up/opaque/complete", {
+						const registerComplete = await $fetch<RegisterComplete, OpaqueFetchError>("/sign-up/opaque/complete", {
 							method: "POST",
 							body: {
+								...additionalFields,
 								email,
+								username,
 								name,
 								registrationRecord,
+								callbackURL,
 							},
 						});
+						if (registerComplete.error || !registerComplete.data) {
+							return registerComplete;
+						}
+						// Only matches the key from later sign-ins if the account was
+						// actually created, which the response deliberately doesn't reveal
+						return {
+							data: { ...registerComplete.data, exportKey },
+							error: null,
+						};
 					}
 				},
 				signIn: {
-					opaque: async ({ email, password }: {
-						email: string;
+					opaque: async ({ email, username, password, callbackURL }: {
+						// Whichever identifier the server signs in by
+						email?: string;
+						username?: string;
+						password: string;
+						// Where the email verification link redirects to, if one is sent
+						callbackURL?: string;
+					}) => {
+						await ready;
+						const startLogin = async (legacyIdentifier?: boolean) => {
+							const { clientLoginState, startLoginRequest } = client.startLogin({
+								password,
+							})
+							const challengeResponse = await $fetch<LoginChallengeResponse, OpaqueFetchError>("/sign-in/opaque/challenge", {
+								method: "POST",
+								body: {
+									email,
+									username,
+									loginRequest: startLoginRequest,
+									legacyIdentifier,
+								},
+							});
+
+							if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+								return { error: challengeResponse.error || clientError("CHALLENGE_FAILED") };
+							}
+
+							const { challenge: loginResponse, state: encryptedServerState, keyStretching } = challengeResponse.data;
+
+							return {
+								encryptedServerState,
+								loginAttempt: client.finishLogin({
+									password,
+									clientLoginState,
+									loginResponse,
+									keyStretching,
+								}),
+								error: null,
+							};
+						}
+
+						let login = await startLogin();
+						// Accounts registered before emails were normalized are bound to the
+						// email exactly as it was typed. The server re-registers them under
+						// the normalized email once signed in.
+						if (!login.error && !login.loginAttempt && email && email !== email.trim().toLowerCase()) {
+							const legacyLogin = await startLogin(true);
+							if (legacyLogin.loginAttempt) {
+								login = legacyLogin;
+							}
+						}
+						if (login.error) {
+							return { data: null, error: login.error };
+						}
+
+						const { encryptedServerState, loginAttempt } = login;
+						if (!loginAttempt) {
+							if (!options?.credentialFallback) {
+								return { data: null, error: clientError("LOGIN_FAILED") };
+							}
+
+							// The user may still be on a legacy credential account
+							const credentialSignIn = await $fetch<CredentialSignIn, OpaqueFetchError>(username ? "/sign-in/username" : "/sign-in/email", {
+								method: "POST",
+								body: {
+									email,
+									username,
+									password,
+								},
+							});
+							if (credentialSignIn.error || !credentialSignIn.data) {
+								return { data: null, error: clientError("LOGIN_FAILED") };
+							}
+							// Without a session there is nothing to migrate yet, the user
+							// is moved over on their next sign-in
+							if ("twoFactorRedirect" in credentialSignIn.data) {
+								return { data: { twoFactorRedirect: true as const }, error: null };
+							}
+
+							// Signed in, now register the same password with OPAQUE
+							const migrationToken = credentialSignIn.data.opaqueMigration?.token;
+							let migratedExportKey: string | undefined;
+							if (migrationToken) {
+								const { clientRegistrationState, registrationRequest } = client.startRegistration({
+									password,
+								})
+								const migrationChallenge = await $fetch<MigrationChallengeResponse, OpaqueFetchError>("/opaque/migrate/challenge", {
+									method: "POST",
+									body: {
+										token: migrationToken,
+										registrationRequest,
+									},
+								});
+								if (migrationChallenge.data?.challenge) {
+									const { registrationRecord, exportKey } = client.finishRegistration({
+										clientRegistrationState,
+										password,
+										registrationResponse: migrationChallenge.data.challenge,
+										keyStretching: migrationChallenge.data.keyStretching,
+									})
+									const migrationComplete = await $fetch<MigrationComplete, OpaqueFetchError>("/opaque/migrate/complete", {
+										method: "POST",
+										body: {
+											token: migrationToken,
+											registrationRecord,
+										},
+									});
+									if (!migrationComplete.error) {
+										migratedExportKey = exportKey;
+									}
+								}
+							}
+
+							return {
+								data: {
+									token: credentialSignIn.data.token,
+									success: true,
+									user: {
+										id: credentialSignIn.data.user.id,
+									},
+									// Only available once the account has moved to OPAQUE
+									exportKey: migratedExportKey,
+								},
+								error: null,
+							};
+						}
+
+						// Checked before the proof is sent, so a server with another
+						// setup learns nothing from it
+						if (!isExpectedServer(loginAttempt.serverStaticPublicKey)) {
+							return { data: null, error: clientError("SERVER_KEY_MISMATCH") };
+						}
+
+						const { finishLoginRequest: loginResult, sessionKey } = loginAttempt;
+
+						const loginComplete = await $fetch<LoginComplete, OpaqueFetchError>("/sign-in/opaque/complete", {
+							method: "POST",
+							body: {
+								email,
+								username,
+								loginResult,
+								encryptedServerState,
+								callbackURL,
+							},
+						});
+
+						if (loginComplete.error || !loginComplete.data) {
+							return loginComplete;
+						}
+
+						// Stored before anything else is sent, since every request for the
+						// new session has to be signed from here on
+						if ("channelBinding" in loginComplete.data && loginComplete.data.channelBinding) {
+							await channelBindingStorage.setItem(CHANNEL_BINDING_STORAGE_KEY, await deriveChannelBindingKey(sessionKey));
+						} else {
+							await channelBindingStorage.removeItem(CHANNEL_BINDING_STORAGE_KEY);
+						}
+
+						// The account is registered under an old server key, silently
+						// re-register it under the current one while we have the password.
+						// While a second factor is pending, the token comes with the
+						// twoFactor verification instead, see rekey.opaque.
+						let exportKey = loginAttempt.exportKey;
+						let previousExportKey: string | undefined;
+						const rekeyToken = "rekey" in loginComplete.data ? loginComplete.data.rekey?.token : undefined;
+						if (rekeyToken) {
+							const rekeyed = await reregister(rekeyToken, password, exportKey);
+							// The new record comes with a new export key, hand back the old
+							// one too so anything wrapped with it can be re-wrapped
+							if (!rekeyed.error) {
+								previousExportKey = exportKey;
+								exportKey = rekeyed.exportKey;
+							}
+						}
+
+						return {
+							data: {
+								...loginComplete.data,
+								exportKey,
+								previousExportKey,
+								sessionKey,
+							},
+							error: null,
+						};
+					}
+				},
+				signRequest: {
+					// Signs a request to one of your own routes while the session is
+					// bound, for verifySignedRequest on the server. Returns the request
+					// unchanged otherwise.
+					opaque: async (request: Request) => {
+						const bindingKey = await channelBindingStorage.getItem(CHANNEL_BINDING_STORAGE_KEY);
+						if (!bindingKey) {
+							return request;
+						}
+						const body = new Uint8Array(await request.clone().arrayBuffer());
+						const headers = new Headers(request.headers);
+						const signed = await signingHeaders(bindingKey, request.method, request.url, body);
+						for (const [name, value] of Object.entries(signed)) {
+							headers.set(name, value);
+						}
+						return new Request(request, { headers });
+					}
+				},
+				rekey: {
+					// For sign-ins that needed a second factor: the twoFactor verify
+					// response carries the rekey token signIn.opaque didn't get
+					opaque: async ({ token, password, exportKey }: {
+						token: string;
+						password: string;
+						// The export key signIn.opaque returned
+						exportKey: string;
+					}) => {
+						const rekeyed = await reregister(token, password, exportKey);
+						if (rekeyed.error) {
+							return { data: null, error: rekeyed.error };
+						}
+						return {
+							data: {
+								exportKey: rekeyed.exportKey,
+								previousExportKey: exportKey,
+							},
+							error: null,
+						};
+					}
+				},
+				changePassword: {
+					opaque: async ({ currentPassword, newPassword, revokeOtherSessions }: {
+						currentPassword: string;
+						newPassword: string;
+						revokeOtherSessions?: boolean;
+					}) => {
+						const policyError = await checkNewPassword(newPassword);
+						if (policyError) {
+							return {
+								error: policyError
+							}
+						}
+						await ready;
+						const { clientLoginState, startLoginRequest } = client.startLogin({
+							password: currentPassword,
+						})
+						const { clientRegistrationState, registrationRequest } = client.startRegistration({
+							password: newPassword,
+						})
+						const challengeResponse = await $fetch<ChangePasswordChallengeResponse, OpaqueFetchError>("/opaque/change-password/challenge", {
+							method: "POST",
+							body: {
+								loginRequest: startLoginRequest,
+								registrationRequest,
+							},
+						});
+
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
+						}
+
+						const {
+							challenge: loginResponse,
+							state: encryptedServerState,
+							keyStretching,
+							registrationChallenge: registrationResponse,
+							registrationKeyStretching,
+						} = challengeResponse.data;
+
+						const loginAttempt = client.finishLogin({
+							password: currentPassword,
+							clientLoginState,
+							loginResponse,
+							keyStretching,
+						})
+						if (!loginAttempt) {
+							return { data: null, error: clientError("INVALID_PASSWORD") };
+						}
+						if (!isExpectedServer(loginAttempt.serverStaticPublicKey)) {
+							return { data: null, error: clientError("SERVER_KEY_MISMATCH") };
+						}
+
+						const { registrationRecord, exportKey } = client.finishRegistration({
+							clientRegistrationState,
+							password: newPassword,
+							registrationResponse,
+							keyStretching: registrationKeyStretching,
+						})
+
+						let vault: Awaited<ReturnType<typeof rewrapVault>>;
+						try {
+							vault = await rewrapVault(challengeResponse.data.vault, loginAttempt.exportKey, exportKey);
+						} catch {
+							return { data: null, error: clientError("VAULT_DECRYPTION_FAILED") };
+						}
+
+						const passwordComplete = await $fetch<ChangePasswordComplete, OpaqueFetchError>("/opaque/change-password/complete", {
+							method: "POST",
+							body: {
+								loginResult: loginAttempt.finishLoginRequest,
+								encryptedServerState,
+								registrationRecord,
+								revokeOtherSessions,
+								vault,
+							},
+						});
+						if (passwordComplete.error || !passwordComplete.data) {
+							return passwordComplete;
+						}
+						// The record was registered again, so the export key changed
+						return {
+							data: {
+								...passwordComplete.data,
+								exportKey,
+								previousExportKey: loginAttempt.exportKey,
+							},
+							error: null,
+						};
+					}
+				},
+				changeEmail: {
+					opaque: async ({ newEmail, callbackURL }: {
+						newEmail: string;
+						callbackURL?: string;
+					}) => {
+						return await $fetch<RequestEmailChangeResponse, OpaqueFetchError>("/opaque/change-email/request", {
+							method: "POST",
+							body: {
+								newEmail,
+								callbackURL,
+							},
+						});
+					}
+				},
+				confirmEmailChange: {
+					opaque: async ({ token, password }: {
+						token: string;
 						password: string;
 					}) => {
 						await ready;
 						const { clientLoginState, startLoginRequest } = client.startLogin({
 							password,
 						})
-						const challengeResponse = await $fetch<LoginChallengeResponse>("/sign-in/opaque/challenge", {
+						const { clientRegistrationState, registrationRequest } = client.startRegistration({
+							password,
+						})
+						const challengeResponse = await $fetch<ChangeEmailChallengeResponse, OpaqueFetchError>("/opaque/change-email/challenge", {
 							method: "POST",
 							body: {
-								email,
+								token,
 								loginRequest: startLoginRequest,
+								registrationRequest,
 							},
 						});
 
-						if (!challengeResponse.data || !challengeResponse.data.challenge) {
-							return { data: null, error: { message: "Failed to get registration challenge" } };
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
 						}
 
-						const { challenge: loginResponse, state: encryptedServerState } = challengeResponse.data;
+						const {
+							challenge: loginResponse,
+							state: encryptedServerState,
+							keyStretching,
+							registrationChallenge: registrationResponse,
+							registrationKeyStretching,
+						} = challengeResponse.data;
 
 						const loginAttempt = client.finishLogin({
 							password,
 							clientLoginState,
 							loginResponse,
+							keyStretching,
 						})
 						if (!loginAttempt) {
-							return { data: null, error: { message: "Login failed" } };
+							return { data: null, error: clientError("INVALID_PASSWORD") };
+						}
+						if (!isExpectedServer(loginAttempt.serverStaticPublicKey)) {
+							return { data: null, error: clientError("SERVER_KEY_MISMATCH") };
 						}
 
-						const { finishLoginRequest: loginResult } = loginAttempt;
+						const { registrationRecord, exportKey } = client.finishRegistration({
+							clientRegistrationState,
+							password,
+							registrationResponse,
+							keyStretching: registrationKeyStretching,
+						})
+
+						let vault: Awaited<ReturnType<typeof rewrapVault>>;
+						try {
+							vault = await rewrapVault(challengeResponse.data.vault, loginAttempt.exportKey, exportKey);
+						} catch {
+							return { data: null, error: clientError("VAULT_DECRYPTION_FAILED") };
+						}
 
-						return await $fetch<LoginComplete>("/sign-in/opaque/complete", {
+						const emailComplete = await $fetch<ChangeEmailComplete, OpaqueFetchError>("/opaque/change-email/complete", {
+							method: "POST",
+							body: {
+								token,
+								loginResult: loginAttempt.finishLoginRequest,
+								encryptedServerState,
+								registrationRecord,
+								vault,
+							},
+						});
+						if (emailComplete.error || !emailComplete.data) {
+							return emailComplete;
+						}
+						// The record was registered again, so the export key changed
+						return {
+							data: {
+								...emailComplete.data,
+								exportKey,
+								previousExportKey: loginAttempt.exportKey,
+							},
+							error: null,
+						};
+					}
+				},
+				linkPassword: {
+					opaque: async ({ password, email, username, callbackURL }: {
+						password: string;
+						// Only needed when the user has no usable identifier yet
+						email?: string;
+						username?: string;
+						callbackURL?: string;
+					}) => {
+						const policyError = await checkNewPassword(password);
+						if (policyError) {
+							return {
+								error: policyError
+							}
+						}
+						await ready;
+						const { clientRegistrationState, registrationRequest } = client.startRegistration({
+							password,
+						})
+						const challengeResponse = await $fetch<LinkChallengeResponse, OpaqueFetchError>("/opaque/link/challenge", {
 							method: "POST",
 							body: {
 								email,
-								loginResult,
-								encryptedServerState
+								username,
+								registrationRequest,
+							},
+						});
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
+						}
+						const { registrationRecord, exportKey } = client.finishRegistration({
+							clientRegistrationState,
+							password,
+							registrationResponse: challengeResponse.data.challenge,
+							keyStretching: challengeResponse.data.keyStretching,
+						})
+						const linkComplete = await $fetch<LinkComplete, OpaqueFetchError>("/opaque/link/complete", {
+							method: "POST",
+							body: {
+								email,
+								username,
+								registrationRecord,
+								callbackURL,
+							},
+						});
+						if (linkComplete.error || !linkComplete.data) {
+							return linkComplete;
+						}
+						return {
+							data: { ...linkComplete.data, exportKey },
+							error: null,
+						};
+					}
+				},
+				verifyPassword: {
+					opaque: async ({ password }: {
+						password: string;
+					}) => {
+						await ready;
+						const { clientLoginState, startLoginRequest } = client.startLogin({
+							password,
+						})
+						const challengeResponse = await $fetch<VerifyPasswordChallengeResponse, OpaqueFetchError>("/opaque/verify-password/challenge", {
+							method: "POST",
+							body: {
+								loginRequest: startLoginRequest,
+							},
+						});
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
+						}
+
+						const { challenge: loginResponse, state: encryptedServerState, keyStretching } = challengeResponse.data;
+						const loginAttempt = client.finishLogin({
+							password,
+							clientLoginState,
+							loginResponse,
+							keyStretching,
+						})
+						if (!loginAttempt) {
+							return { data: null, error: clientError("INVALID_PASSWORD") };
+						}
+						if (!isExpectedServer(loginAttempt.serverStaticPublicKey)) {
+							return { data: null, error: clientError("SERVER_KEY_MISMATCH") };
+						}
+
+						return await $fetch<VerifyPasswordComplete, OpaqueFetchError>("/opaque/verify-password/complete", {
+							method: "POST",
+							body: {
+								loginResult: loginAttempt.finishLoginRequest,
+								encryptedServerState,
+							},
+						});
+					}
+				},
+				deleteUser: {
+					opaque: async ({ password, callbackURL }: {
+						password: string;
+						// Where the confirmation link redirects to, if deletion has to be confirmed by email
+						callbackURL?: string;
+					}) => {
+						await ready;
+						const { clientLoginState, startLoginRequest } = client.startLogin({
+							password,
+						})
+						const challengeResponse = await $fetch<DeleteUserChallengeResponse, OpaqueFetchError>("/opaque/delete-user/challenge", {
+							method: "POST",
+							body: {
+								loginRequest: startLoginRequest,
+							},
+						});
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
+						}
+
+						const { challenge: loginResponse, state: encryptedServerState, keyStretching } = challengeResponse.data;
+						const loginAttempt = client.finishLogin({
+							password,
+							clientLoginState,
+							loginResponse,
+							keyStretching,
+						})
+						if (!loginAttempt) {
+							return { data: null, error: clientError("INVALID_PASSWORD") };
+						}
+						if (!isExpectedServer(loginAttempt.serverStaticPublicKey)) {
+							return { data: null, error: clientError("SERVER_KEY_MISMATCH") };
+						}
+
+						return await $fetch<DeleteUserComplete, OpaqueFetchError>("/opaque/delete-user/complete", {
+							method: "POST",
+							body: {
+								loginResult: loginAttempt.finishLoginRequest,
+								encryptedServerState,
+								callbackURL,
+							},
+						});
+					}
+				},
+				forgetPassword: {
+					opaque: async ({ email, username, redirectTo }: {
+						email?: string;
+						username?: string;
+						redirectTo?: string;
+					}) => {
+						return await $fetch<RequestPasswordResetResponse, OpaqueFetchError>("/opaque/forget-password", {
+							method: "POST",
+							body: {
+								email,
+								username,
+								redirectTo,
+							},
+						});
+					}
+				},
+				resetPassword: {
+					opaque: async ({ token, newPassword }: {
+						token: string;
+						newPassword: string;
+					}) => {
+						const policyError = await checkNewPassword(newPassword);
+						if (policyError) {
+							return {
+								error: policyError
+							}
+						}
+						await ready;
+						const { clientRegistrationState, registrationRequest } = client.startRegistration({
+							password: newPassword,
+						})
+						const challengeResponse = await $fetch<ResetPasswordChallengeResponse, OpaqueFetchError>("/opaque/reset-password/challenge", {
+							method: "POST",
+							body: {
+								token,
+								registrationRequest,
+							},
+						});
+						if (challengeResponse.error || !challengeResponse.data || !challengeResponse.data.challenge) {
+							return {
+								data: null,
+								error: challengeResponse.error || clientError("CHALLENGE_FAILED")
+							};
+						}
+						const { challenge: registrationResponse, keyStretching } = challengeResponse.data;
+						const { registrationRecord } = client.finishRegistration({
+							clientRegistrationState,
+							password: newPassword,
+							registrationResponse,
+							keyStretching,
+						})
+						return await $fetch<ResetPasswordComplete, OpaqueFetchError>("/opaque/reset-password/complete", {
+							method: "POST",
+							body: {
+								token,
+								registrationRecord,
 							},
 						});
 					}
+				},
+				getVault: {
+					opaque: async ({ exportKey }: {
+						exportKey: string;
+					}) => {
+						const vaultResponse = await $fetch<GetVaultResponse, OpaqueFetchError>("/opaque/vault", {
+							method: "GET",
+						});
+						if (vaultResponse.error || !vaultResponse.data) {
+							return { data: null, error: vaultResponse.error || clientError("VAULT_FETCH_FAILED") };
+						}
+						const { ciphertext, version } = vaultResponse.data;
+						try {
+							return {
+								data: {
+									data: ciphertext ? await decryptVault(exportKey, ciphertext) : null,
+									version,
+								},
+								error: null,
+							};
+						} catch {
+							return { data: null, error: clientError("VAULT_DECRYPTION_FAILED") };
+						}
+					}
+				},
+				putVault: {
+					opaque: async ({ exportKey, data, version }: {
+						exportKey: string;
+						data: string;
+						// The version returned by getVault, 0 for a new vault
+						version: number;
+					}) => {
+						return await $fetch<PutVaultResponse, OpaqueFetchError>("/opaque/vault/put", {
+							method: "POST",
+							body: {
+								ciphertext: await encryptVault(exportKey, data),
+								version,
+							},
+						});
+					}
+				},
+				rotateVault: {
+					opaque: async ({ previousExportKey, exportKey }: {
+						previousExportKey: string;
+						exportKey: string;
+					}) => {
+						const vaultResponse = await $fetch<GetVaultResponse, OpaqueFetchError>("/opaque/vault", {
+							method: "GET",
+						});
+						if (vaultResponse.error || !vaultResponse.data) {
+							return { data: null, error: vaultResponse.error || clientError("VAULT_FETCH_FAILED") };
+						}
+						const { ciphertext, version } = vaultResponse.data;
+						if (!ciphertext) {
+							return { data: null, error: clientError("NO_VAULT") };
+						}
+						let vault: Awaited<ReturnType<typeof rewrapVault>>;
+						try {
+							vault = await rewrapVault({ ciphertext, version }, previousExportKey, exportKey);
+						} catch {
+							return { data: null, error: clientError("VAULT_DECRYPTION_FAILED") };
+						}
+						return await $fetch<RotateVaultResponse, OpaqueFetchError>("/opaque/vault/rotate", {
+							method: "POST",
+							body: vault,
+						});
+					}
 				}
 			}
 		},
-		// $InferServerPlugin: {} as ReturnType<typeof opaque>,
+		$InferServerPlugin: {} as ReturnType<typeof opaque>,
 	} satisfies BetterAuthClientPlugin;
 };
@@ -0,0 +1,60 @@
+// Returned as `code` on every error from the plugin's endpoints and client
+// actions. Messages may change, codes won't.
+export const OPAQUE_ERROR_CODES = {
+	INVALID_REQUEST: "Invalid request",
+	INVALID_IDENTIFIER: "Invalid email or username",
+	INVALID_EMAIL: "Invalid email",
+	MISSING_IDENTIFIER: "User has no email or username",
+	IDENTIFIER_IN_USE: "This email or username is already in use",
+	INVALID_STATE: "Invalid login state",
+	STATE_EXPIRED: "Login state has expired",
+	LOGIN_FAILED: "Login failed",
+	INVALID_PASSWORD: "Invalid password",
+	TOO_MANY_ATTEMPTS: "Too many login attempts. Please try again later.",
+	EMAIL_NOT_VERIFIED: "Email not verified",
+	FAILED_TO_CREATE_SESSION: "Failed to create session",
+	OPAQUE_ACCOUNT_NOT_FOUND: "No OPAQUE account found for this user",
+	ACCOUNT_ALREADY_LINKED: "User already has an OPAQUE account",
+	INVALID_TOKEN: "Invalid token",
+	INVALID_REKEY_TOKEN: "Invalid rekey token",
+	RESET_PASSWORD_DISABLED: "Reset password isn't enabled",
+	DELETE_USER_DISABLED: "Delete user is disabled",
+	CHANGE_EMAIL_DISABLED: "Change email is disabled",
+	VERIFICATION_EMAIL_DISABLED: "Verification email isn't enabled",
+	EMAIL_IS_THE_SAME: "Email is the same",
+	COULD_NOT_UPDATE_EMAIL: "Couldn't update your email",
+	USE_OPAQUE_CHANGE_EMAIL: "Use changeEmail.opaque to change the email",
+	CREDENTIAL_MIGRATION_DISABLED: "Credential migration isn't enabled",
+	INVALID_MIGRATION_TOKEN: "Invalid migration token, please sign in again",
+	NO_CREDENTIAL_ACCOUNT: "No credential account to migrate",
+	VAULT_DISABLED: "The vault isn't enabled",
+	VAULT_CONFLICT: "The vault has been changed, fetch it and try again",
+	VAULT_REWRAP_REQUIRED: "The vault must be re-wrapped with the new export key",
+	NO_VAULT: "There is no vault to rotate",
+	AUDIT_LOG_DISABLED: "The audit log isn't enabled",
+	AUDIT_LOG_FORBIDDEN: "Only admins can read the audit log",
+	CHANNEL_BINDING_REQUIRED: "This session only accepts signed requests",
+	INVALID_REQUEST_SIGNATURE: "Invalid request signature",
+	REQUEST_SIGNATURE_EXPIRED: "Request signature has expired",
+	REQUEST_REPLAYED: "Request has already been used",
+	// Only returned by the client
+	CHALLENGE_FAILED: "Failed to get the challenge",
+	VAULT_FETCH_FAILED: "Failed to get the vault",
+	VAULT_DECRYPTION_FAILED: "Failed to decrypt the vault",
+	SERVER_KEY_MISMATCH: "The server's public key doesn't match the expected key",
+	PASSWORD_POLICY_FETCH_FAILED: "Failed to get the password policy",
+	PASSWORD_POLICY_VIOLATION: "Password doesn't meet the password policy",
+	PASSWORD_BREACH_CHECK_FAILED: "Failed to check the password against known breaches",
+	// Listed in the issues of a PASSWORD_POLICY_VIOLATION. The length codes
+	// are shared with Better Auth, so they keep its messages.
+	PASSWORD_TOO_SHORT: "Password too short",
+	PASSWORD_TOO_LONG: "Password too long",
+	PASSWORD_MISSING_LOWERCASE: "Password must contain a lowercase letter",
+	PASSWORD_MISSING_UPPERCASE: "Password must contain an uppercase letter",
+	PASSWORD_MISSING_DIGIT: "Password must contain a digit",
+	PASSWORD_MISSING_SYMBOL: "Password must contain a symbol",
+	PASSWORD_TOO_WEAK: "Password is too weak",
+	PASSWORD_BREACHED: "Password has appeared in a data breach",
+} as const;
+
+export type OpaqueErrorCode = keyof typeof OPAQUE_ERROR_CODES;
@@ -1,2 +1,24 @@
-export { opaqueClient } from "./client";
+export { deriveExportSubkey, haveIBeenPwned, opaqueClient } from "./client";
+export type { ChannelBindingStorage } from "./client";
+export { OPAQUE_ERROR_CODES } from "./error-codes";
+export type { OpaqueErrorCode } from "./error-codes";
+export { scorePasswordStrength } from "./password-policy";
+export type {
+	OpaquePasswordPolicy,
+	PasswordPolicyIssue,
+	ResolvedPasswordPolicy,
+} from "./password-policy";
 export { opaque } from "./server";
+export {
+	getOpaqueServerPublicKeys,
+	isPasswordRecentlyVerified,
+	verifySignedRequest,
+} from "./utils";
+export type {
+	OpaqueAuditEvent,
+	OpaqueAuditLogEntry,
+	OpaqueIdentifier,
+	OpaqueKeyStretching,
+	OpaqueLoginFailureReason,
+	OpaqueOptions,
+} from "./utils";
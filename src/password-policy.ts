@@ -0,0 +1,115 @@
+import { OPAQUE_ERROR_CODES } from "./error-codes";
+
+export interface OpaquePasswordPolicy {
+	// Defaults to emailAndPassword.minPasswordLength, or 8.
+	minLength?: number;
+	// Defaults to emailAndPassword.maxPasswordLength, or 128.
+	maxLength?: number;
+	requireLowercase?: boolean;
+	requireUppercase?: boolean;
+	requireDigit?: boolean;
+	requireSymbol?: boolean;
+	// The least score from 0 to 4 that scorePasswordStrength must give.
+	minStrength?: number;
+	// Have the client reject passwords found in known data breaches, using
+	// the breachedPasswordChecker of opaqueClient().
+	rejectBreached?: boolean;
+}
+
+// The policy as the server publishes it, with every default filled in
+export type ResolvedPasswordPolicy = Required<OpaquePasswordPolicy>;
+
+export type PasswordPolicyIssueCode =
+	| "PASSWORD_TOO_SHORT"
+	| "PASSWORD_TOO_LONG"
+	| "PASSWORD_MISSING_LOWERCASE"
+	| "PASSWORD_MISSING_UPPERCASE"
+	| "PASSWORD_MISSING_DIGIT"
+	| "PASSWORD_MISSING_SYMBOL"
+	| "PASSWORD_TOO_WEAK"
+	| "PASSWORD_BREACHED";
+
+export type PasswordPolicyIssue = {
+	code: PasswordPolicyIssueCode;
+	message: string;
+};
+
+export function resolvePasswordPolicy(
+	policy: OpaquePasswordPolicy | undefined,
+	defaults: { minPasswordLength: number; maxPasswordLength: number },
+): ResolvedPasswordPolicy {
+	return {
+		minLength: policy?.minLength ?? defaults.minPasswordLength,
+		maxLength: policy?.maxLength ?? defaults.maxPasswordLength,
+		requireLowercase: policy?.requireLowercase ?? false,
+		requireUppercase: policy?.requireUppercase ?? false,
+		requireDigit: policy?.requireDigit ?? false,
+		requireSymbol: policy?.requireSymbol ?? false,
+		minStrength: policy?.minStrength ?? 0,
+		rejectBreached: policy?.rejectBreached ?? false,
+	};
+}
+
+const CHARACTER_CLASSES = [
+	{ pattern: /[a-z]/, size: 26 },
+	{ pattern: /[A-Z]/, size: 26 },
+	{ pattern: /[0-9]/, size: 10 },
+	{ pattern: /[^a-zA-Z0-9]/, size: 33 },
+];
+
+/**
+ * Scores a password from 0 (trivial) to 4 (strong) by a rough estimate of
+ * its entropy: the length times the bits per character of the character
+ * classes it uses. Repeating a single character only counts once.
+ */
+export function scorePasswordStrength(password: string): number {
+	const poolSize = CHARACTER_CLASSES.filter(({ pattern }) =>
+		pattern.test(password),
+	).reduce((total, { size }) => total + size, 0);
+	const length = new Set(password).size === 1 ? 1 : password.length;
+	const bits = poolSize > 0 ? length * Math.log2(poolSize) : 0;
+	if (bits < 28) return 0;
+	if (bits < 36) return 1;
+	if (bits < 60) return 2;
+	if (bits < 128) return 3;
+	return 4;
+}
+
+export function passwordPolicyIssue(
+	code: PasswordPolicyIssueCode,
+): PasswordPolicyIssue {
+	return { code, message: OPAQUE_ERROR_CODES[code] };
+}
+
+/**
+ * Returns every way a password breaks the policy, apart from the breach
+ * check, which needs a network request and is left to the caller.
+ */
+export function checkPasswordPolicy(
+	password: string,
+	policy: ResolvedPasswordPolicy,
+): PasswordPolicyIssue[] {
+	const issues: PasswordPolicyIssue[] = [];
+	if (password.length < policy.minLength) {
+		issues.push(passwordPolicyIssue("PASSWORD_TOO_SHORT"));
+	}
+	if (password.length > policy.maxLength) {
+		issues.push(passwordPolicyIssue("PASSWORD_TOO_LONG"));
+	}
+	if (policy.requireLowercase && !/[a-z]/.test(password)) {
+		issues.push(passwordPolicyIssue("PASSWORD_MISSING_LOWERCASE"));
+	}
+	if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+		issues.push(passwordPolicyIssue("PASSWORD_MISSING_UPPERCASE"));
+	}
+	if (policy.requireDigit && !/[0-9]/.test(password)) {
+		issues.push(passwordPolicyIssue("PASSWORD_MISSING_DIGIT"));
+	}
+	if (policy.requireSymbol && !/[^a-zA-Z0-9]/.test(password)) {
+		issues.push(passwordPolicyIssue("PASSWORD_MISSING_SYMBOL"));
+	}
+	if (scorePasswordStrength(password) < policy.minStrength) {
+		issues.push(passwordPolicyIssue("PASSWORD_TOO_WEAK"));
+	}
+	return issues;
+}
@@ -1,36 +1,523 @@
 import { ready, server } from "@serenity-kit/opaque";
-import { APIError, type BetterAuthPlugin, type User } from "better-auth";
-import { createAuthEndpoint } from "better-auth/api";
-import { setSessionCookie } from "better-auth/cookies";
+import type { GenericEndpointContext } from "@better-auth/core";
+import {
+	type Account,
+	type BetterAuthPlugin,
+	type Session,
+	type User,
+	type Verification,
+} from "better-auth";
+import {
+	APIError,
+	createAuthEndpoint,
+	createAuthMiddleware,
+	freshSessionMiddleware,
+	getSessionFromCtx,
+	originCheck,
+	sessionMiddleware,
+} from "better-auth/api";
+import { deleteSessionCookie, setSessionCookie } from "better-auth/cookies";
+import { parseUserInput } from "better-auth/db";
 import { generateRandomString } from "better-auth/crypto";
 import * as z from "zod";
+import { deriveChannelBindingKey } from "./channel-binding";
+import { OPAQUE_ERROR_CODES } from "./error-codes";
+import { resolvePasswordPolicy } from "./password-policy";
 import {
-	createDummyRegistrationRecord,
-	decryptServerLoginState,
-	encryptServerLoginState,
+	assertLoginAllowed,
+	assertSignedRequest,
+	AUDIT_LOG_MODEL,
+	AUDIT_LOG_PRUNE_INTERVAL,
+	CHANGE_EMAIL_IDENTIFIER_PREFIX,
+	CHANGE_EMAIL_USER_IDENTIFIER_PREFIX,
+	CHANNEL_BINDING_EXEMPT_PATHS,
+	clearLoginFailures,
+	consumeResetPasswordToken,
+	createFakeRegistrationRecord,
+	DEFAULT_AUDIT_LOG_RETENTION,
+	DEFAULT_CHANNEL_BINDING_MAX_SKEW,
+	DEFAULT_KEY_STRETCHING,
+	DEFAULT_LOGIN_STATE_EXPIRES_IN,
+	DEFAULT_SERVER_KEY_ID,
+	DELETE_ACCOUNT_IDENTIFIER_PREFIX,
+	emailIdentifier,
+	encryptSessionToken,
+	findChannelBindingKey,
+	finishServerLogin,
+	findCredentialAccount,
+	findEmailChange,
 	findOpaqueAccount,
+	findResetPasswordUserId,
+	findTrustedDeviceToken,
+	findTwoFactorPlugin,
+	findVault,
+	getOpaqueServerPublicKeys,
+	hasAdminRole,
+	issueLoginState,
+	keepRequestBody,
 	LOGIN_REQUEST_LENGTH,
+	normalizeServerKeys,
+	type OpaqueAuditEvent,
+	type OpaqueAuditLogEntry,
+	type OpaqueLoginFailureReason,
+	opaqueError,
 	type OpaqueOptions,
+	type OpaqueServerKey,
+	pruneAuditLog,
 	REGISTRATION_RECORD_MAX_LENGTH,
 	REGISTRATION_RECORD_MIN_LENGTH,
 	REGISTRATION_REQUEST_LENGTH,
+	RESET_PASSWORD_IDENTIFIER_PREFIX,
+	redeemLoginState,
+	redeemSessionToken,
+	refreshTrustedDevice,
+	reserveLoginAttempt,
+	resolveBruteForceOptions,
+	parseKeyStretching,
+	pickFakeKeyStretching,
+	resolveIdentifier,
+	sendOpaqueVerificationEmail,
+	serializeKeyStretching,
+	startTwoFactorVerification,
+	takeTwoFactorRekey,
+	TWO_FACTOR_VERIFY_PATHS,
 	validateBase64Length,
 	validateBase64LengthRange,
+	VAULT_MAX_CIPHERTEXT_LENGTH,
+	VAULT_MODEL,
+	withResponseTime,
+	writeAuditEvent,
+	writeVault,
 } from "./utils";
 
 export const opaque = (options?: OpaqueOptions) => {
-	let OPAQUE_SERVER_KEY: string;
+	let serverKeys: OpaqueServerKey[];
 
 	if (options?.OPAQUE_SERVER_KEY) {
-		OPAQUE_SERVER_KEY = options.OPAQUE_SERVER_KEY;
+		serverKeys = normalizeServerKeys(options.OPAQUE_SERVER_KEY);
 	} else {
 		ready.then(() => {
-			OPAQUE_SERVER_KEY = server.createSetup();
+			const OPAQUE_SERVER_KEY = server.createSetup();
+			serverKeys = normalizeServerKeys(OPAQUE_SERVER_KEY);
 			console.log(
 				`OPAQUE_SERVER_KEY not provided. Generated a new one for development purposes: ${OPAQUE_SERVER_KEY}`,
 			);
 		});
 	}
+
+	const loginStateExpiresIn =
+		options?.loginStateExpiresIn ?? DEFAULT_LOGIN_STATE_EXPIRES_IN;
+	const loginStateStorage = options?.loginStateStorage ?? "client";
+	const bruteForceOptions = options?.bruteForceProtection
+		? resolveBruteForceOptions(options.bruteForceProtection)
+		: undefined;
+
+	const responseTime = options?.responseTime;
+	const channelBindingMaxSkew = options?.channelBinding
+		? (options.channelBinding.maxSkew ?? DEFAULT_CHANNEL_BINDING_MAX_SKEW)
+		: undefined;
+	const auditLogRetention = options?.auditLog
+		? (options.auditLog.retention ?? DEFAULT_AUDIT_LOG_RETENTION)
+		: undefined;
+
+	let nextAuditLogPrune = 0;
+
+	const audit = async (
+		ctx: GenericEndpointContext,
+		event: OpaqueAuditEvent,
+		identifier: string,
+		userId?: string,
+	) => {
+		if (auditLogRetention === undefined) {
+			return;
+		}
+		await writeAuditEvent(ctx, { event, identifier, userId });
+		// Pruning goes through the whole table, so it isn't done on every write
+		if (Date.now() >= nextAuditLogPrune) {
+			nextAuditLogPrune = Date.now() + AUDIT_LOG_PRUNE_INTERVAL;
+			await pruneAuditLog(ctx, auditLogRetention);
+		}
+	};
+
+	const identifier = resolveIdentifier(options?.identifier);
+	const keyStretching = options?.keyStretching ?? DEFAULT_KEY_STRETCHING;
+	// Stored on every account registered from now on
+	const currentKeyStretching = serializeKeyStretching(keyStretching);
+	// What unknown identifiers are answered with, one profile each
+	const fakeKeyStretchingProfiles = [
+		keyStretching,
+		...(options?.previousKeyStretching ?? []),
+	].filter(
+		(profile, index, profiles) =>
+			profiles.findIndex(
+				(other) =>
+					serializeKeyStretching(other) === serializeKeyStretching(profile),
+			) === index,
+	);
+
+	// Reads the configured identifier from a request body and normalizes it.
+	// Every record is bound to the normalized form, so it must be used everywhere.
+	const readIdentifier = (body: { email?: string; username?: string }) => {
+		const raw = body[identifier.field];
+		const normalized = raw ? identifier.normalize(raw) : null;
+		if (!raw || !normalized) {
+			throw opaqueError("BAD_REQUEST", "INVALID_IDENTIFIER", `Invalid ${identifier.field}`);
+		}
+		return { raw, normalized };
+	};
+
+	const getUserIdentifier = (user: User) => {
+		const userIdentifier = identifier.getUserIdentifier(
+			user as User & Record<string, unknown>,
+		);
+		if (!userIdentifier) {
+			throw opaqueError("BAD_REQUEST", "MISSING_IDENTIFIER", `User has no ${identifier.field}`);
+		}
+		return userIdentifier;
+	};
+
+	const identifierFields = {
+		email: z.string().optional(),
+		username: z.string().optional(),
+	};
+
+	// The credential account a user can still move to OPAQUE from
+	const findAccountToMigrate = async (
+		ctx: GenericEndpointContext,
+		userId: string,
+	) => {
+		const [credentialAccount, opaqueAccount] = await Promise.all([
+			findCredentialAccount(ctx, userId),
+			findOpaqueAccount(ctx, userId),
+		]);
+		return credentialAccount && !opaqueAccount ? credentialAccount : null;
+	};
+
+	// Returns the credential account to migrate from. The token proves that
+	// this session was created by a sign-in with the legacy password.
+	const assertCanMigrate = async (
+		ctx: GenericEndpointContext & {
+			context: { session: { session: Session; user: User } };
+		},
+		token: string,
+		{ consume }: { consume: boolean },
+	) => {
+		if (!options?.credentialMigration) {
+			throw opaqueError("BAD_REQUEST", "CREDENTIAL_MIGRATION_DISABLED");
+		}
+
+		await redeemSessionToken(ctx, "migrate", token, { consume });
+
+		const credentialAccount = await findAccountToMigrate(
+			ctx,
+			ctx.context.session.user.id,
+		);
+		if (!credentialAccount) {
+			throw opaqueError("BAD_REQUEST", "NO_CREDENTIAL_ACCOUNT");
+		}
+		return credentialAccount;
+	};
+
+	const assertChangeEmailEnabled = (ctx: GenericEndpointContext) => {
+		if (!ctx.context.options.user?.changeEmail?.enabled) {
+			ctx.context.logger.error("Change email is disabled.");
+			throw opaqueError("BAD_REQUEST", "CHANGE_EMAIL_DISABLED");
+		}
+	};
+
+	// The email from a change-email token, if the token belongs to the user
+	// and nobody has taken the email since it was sent
+	const findEmailChangeForUser = async (
+		ctx: GenericEndpointContext,
+		user: User,
+		token: string,
+	) => {
+		const change = await findEmailChange(ctx, token);
+		if (!change || change.userId !== user.id) {
+			throw opaqueError("BAD_REQUEST", "INVALID_TOKEN");
+		}
+		if (await ctx.context.internalAdapter.findUserByEmail(change.email)) {
+			throw opaqueError("BAD_REQUEST", "COULD_NOT_UPDATE_EMAIL");
+		}
+		return change.email;
+	};
+
+	// Users who signed up some other way can add a password, once
+	const assertCanLink = async (ctx: GenericEndpointContext, user: User) => {
+		if (await findOpaqueAccount(ctx, user.id)) {
+			throw opaqueError("BAD_REQUEST", "ACCOUNT_ALREADY_LINKED");
+		}
+	};
+
+	// Users created by OAuth or the anonymous plugin may have no usable
+	// identifier (e.g. a placeholder email), so they pick one while linking
+	const resolveLinkIdentifier = async (
+		ctx: GenericEndpointContext,
+		user: User,
+		body: { email?: string; username?: string },
+	) => {
+		const current = identifier.getUserIdentifier(
+			user as User & Record<string, unknown>,
+		);
+		const normalized = current ? identifier.normalize(current) : null;
+		// Anonymous users have a placeholder email, so they pick a real one
+		const isAnonymous = (user as User & { isAnonymous?: boolean | null })
+			.isAnonymous;
+		if (normalized && !isAnonymous) {
+			return { userIdentifier: normalized, userFields: null };
+		}
+
+		const { raw, normalized: userIdentifier } = readIdentifier(body);
+		if (await identifier.findUser(ctx, userIdentifier)) {
+			throw opaqueError("BAD_REQUEST", "IDENTIFIER_IN_USE", `This ${identifier.field} is already in use`);
+		}
+
+		const userFields: Record<string, unknown> = identifier.getUserFields?.(
+			raw,
+			userIdentifier,
+		) ?? { email: userIdentifier, emailVerified: false };
+		if ("isAnonymous" in user) {
+			userFields.isAnonymous = false;
+		}
+		return { userIdentifier, userFields };
+	};
+
+	// New registrations always use the first key in the keyring
+	const getCurrentServerKey = () => serverKeys[0] as OpaqueServerKey;
+	const getServerKey = (serverKeyId?: string | null) =>
+		serverKeys.find(
+			(serverKey) => serverKey.id === (serverKeyId || DEFAULT_SERVER_KEY_ID),
+		);
+
+	// Whether a record is under an older key or key stretching profile
+	const isOutdatedAccount = (account: {
+		serverKeyId?: string | null;
+		keyStretching?: string | null;
+	}) =>
+		(account.serverKeyId || DEFAULT_SERVER_KEY_ID) !== getCurrentServerKey().id ||
+		serializeKeyStretching(parseKeyStretching(account.keyStretching)) !==
+			currentKeyStretching;
+
+	const vaultBody = z.object({
+		ciphertext: z.string().base64url().max(VAULT_MAX_CIPHERTEXT_LENGTH),
+		// The version the ciphertext replaces, 0 if there is no vault yet
+		version: z.number().int().min(0),
+	});
+
+	const assertVaultEnabled = () => {
+		if (!options?.vault) {
+			throw opaqueError("BAD_REQUEST", "VAULT_DISABLED");
+		}
+	};
+
+	// The vault the client has to re-wrap before the record is replaced
+	const findVaultToRewrap = async (ctx: GenericEndpointContext, userId: string) => {
+		const vault = options?.vault
+			? await findVault(ctx.context.adapter, userId)
+			: null;
+		return vault
+			? { ciphertext: vault.ciphertext, version: vault.version }
+			: undefined;
+	};
+
+	// Re-registering changes the export key, so the vault is re-wrapped in the
+	// same transaction to keep it readable with whichever record is stored
+	const replaceRegistrationRecord = async (
+		ctx: GenericEndpointContext,
+		account: Account,
+		registrationRecord: string,
+		vault?: z.infer<typeof vaultBody>,
+		userUpdate?: Record<string, unknown>,
+	) => {
+		const existingVault = await findVaultToRewrap(ctx, account.userId);
+		if (existingVault && !vault) {
+			throw opaqueError("BAD_REQUEST", "VAULT_REWRAP_REQUIRED");
+		}
+
+		await ctx.context.adapter.transaction(async (trx) => {
+			if (existingVault && vault) {
+				await writeVault(trx, account.userId, vault.ciphertext, vault.version);
+			}
+			// The record is bound to the identifier, so both change together
+			if (userUpdate) {
+				await trx.update({
+					model: "user",
+					where: [{ field: "id", value: account.userId }],
+					update: { ...userUpdate, updatedAt: new Date() },
+				});
+			}
+			await trx.update({
+				model: "account",
+				where: [{ field: "id", value: account.id }],
+				update: {
+					registrationRecord,
+					serverKeyId: getCurrentServerKey().id,
+					keyStretching: currentKeyStretching,
+					updatedAt: new Date(),
+				},
+			});
+		});
+	};
+	// Starts a login against the signed-in user's own record. The user is
+	// already known from the session, so there is no enumeration concern here
+	// and no fake record is needed.
+	const startAccountLogin = async (
+		ctx: GenericEndpointContext,
+		user: User,
+		loginRequest: string,
+	) => {
+		validateBase64Length(loginRequest, LOGIN_REQUEST_LENGTH, "login request");
+
+		const opaqueAccount = await findOpaqueAccount(ctx, user.id);
+		const accountServerKey = getServerKey(opaqueAccount?.serverKeyId);
+		if (!opaqueAccount?.registrationRecord || !accountServerKey) {
+			throw opaqueError("BAD_REQUEST", "OPAQUE_ACCOUNT_NOT_FOUND");
+		}
+
+		const userIdentifier = getUserIdentifier(user);
+		if (bruteForceOptions) {
+			await assertLoginAllowed(ctx, userIdentifier, bruteForceOptions);
+		}
+
+		const { loginResponse, serverLoginState } = server.startLogin({
+			userIdentifier,
+			startLoginRequest: loginRequest,
+			serverSetup: accountServerKey.key,
+			registrationRecord: opaqueAccount.registrationRecord,
+		});
+
+		const state = await issueLoginState(
+			ctx,
+			serverLoginState,
+			{ id: user.id },
+			userIdentifier,
+			loginStateStorage,
+			loginStateExpiresIn,
+		);
+
+		return {
+			challenge: loginResponse,
+			state,
+			userIdentifier,
+			keyStretching: parseKeyStretching(opaqueAccount.keyStretching),
+		};
+	};
+
+	// Checks the password proof for a login started by startAccountLogin,
+	// throttled like a regular sign-in
+	const finishAccountLogin = async (
+		ctx: GenericEndpointContext,
+		user: User,
+		encryptedServerState: string,
+		loginResult: string,
+	) => {
+		const { serverLoginState, user: stateUser } = await redeemLoginState(
+			ctx,
+			encryptedServerState,
+			loginStateStorage,
+			loginStateExpiresIn,
+		);
+
+		// The state must have been issued for the user of this session
+		if (!stateUser || stateUser.id !== user.id) {
+			throw opaqueError("BAD_REQUEST", "INVALID_STATE");
+		}
+
+		const userIdentifier = getUserIdentifier(user);
+		if (bruteForceOptions) {
+			await reserveLoginAttempt(ctx, userIdentifier, bruteForceOptions);
+		}
+
+		const sessionKey = finishServerLogin(serverLoginState, loginResult);
+		if (!sessionKey) {
+			throw opaqueError("BAD_REQUEST", "INVALID_PASSWORD");
+		}
+
+		if (bruteForceOptions) {
+			await clearLoginFailures(ctx, userIdentifier);
+		}
+	};
+
+	const assertDeleteUserEnabled = (ctx: GenericEndpointContext) => {
+		if (!ctx.context.options.user?.deleteUser?.enabled) {
+			ctx.context.logger.error(
+				"Delete user is disabled. Enable it in the options",
+			);
+			throw opaqueError("NOT_FOUND", "DELETE_USER_DISABLED");
+		}
+	};
+
+	// Same steps as Better Auth's deleteUser, plus everything this plugin keeps
+	// about the user outside of the user, session and account tables
+	const deleteOpaqueUser = async (ctx: GenericEndpointContext, user: User) => {
+		const deleteUser = ctx.context.options.user?.deleteUser;
+		if (deleteUser?.beforeDelete) {
+			await deleteUser.beforeDelete(user, ctx.request);
+		}
+
+		await ctx.context.internalAdapter.deleteUser(user.id);
+		await ctx.context.internalAdapter.deleteSessions(user.id);
+		await ctx.context.internalAdapter.deleteAccounts(user.id);
+		if (options?.vault) {
+			await ctx.context.adapter.deleteMany({
+				model: VAULT_MODEL,
+				where: [{ field: "userId", value: user.id }],
+			});
+		}
+		// Pending email changes are found through the row naming their user
+		const emailChangeOwners = await ctx.context.adapter.findMany<Verification>({
+			model: "verification",
+			where: [
+				{ field: "value", value: user.id },
+				{
+					field: "identifier",
+					operator: "starts_with",
+					value: CHANGE_EMAIL_USER_IDENTIFIER_PREFIX,
+				},
+			],
+		});
+		if (emailChangeOwners.length > 0) {
+			await ctx.context.adapter.deleteMany({
+				model: "verification",
+				where: [
+					{
+						field: "identifier",
+						operator: "in",
+						value: emailChangeOwners.map(
+							(owner) =>
+								`${CHANGE_EMAIL_IDENTIFIER_PREFIX}${owner.identifier.slice(CHANGE_EMAIL_USER_IDENTIFIER_PREFIX.length)}`,
+						),
+					},
+				],
+			});
+		}
+		await Promise.all(
+			[
+				RESET_PASSWORD_IDENTIFIER_PREFIX,
+				DELETE_ACCOUNT_IDENTIFIER_PREFIX,
+				CHANGE_EMAIL_USER_IDENTIFIER_PREFIX,
+			].map(
+				(prefix) =>
+					ctx.context.adapter.deleteMany({
+						model: "verification",
+						where: [
+							{ field: "value", value: user.id },
+							{ field: "identifier", operator: "starts_with", value: prefix },
+						],
+					}),
+			),
+		);
+		const userIdentifier = identifier.getUserIdentifier(user);
+		if (userIdentifier) {
+			await clearLoginFailures(ctx, userIdentifier);
+		}
+		deleteSessionCookie(ctx);
+
+		if (deleteUser?.afterDelete) {
+			await deleteUser.afterDelete(user, ctx.request);
+		}
+	};
+
 	if (options?.insecureCreateSessionOnRegister) {
 		console.log(`⚠️ WARNING: insecureCreateSessionOnRegister is enabled. This will automatically create a session upon registration, which could lead to user enumeration. Use with caution in production environments.`);
 	}
@@ -39,6 +526,12 @@ export const opaque = (options?: OpaqueOptions) => {
 		init: async () => {
 			await ready;
 		},
+		onRequest: async (request) => {
+			// Signatures cover the body as sent, which is gone once it is parsed
+			if (channelBindingMaxSkew !== undefined) {
+				keepRequestBody(request);
+			}
+		},
 		schema: {
 			account: {
 				fields: {
@@ -48,8 +541,207 @@ export const opaque = (options?: OpaqueOptions) => {
 						unique: true,
 						validator: { input: z.string().base64url() },
 					},
+					serverKeyId: {
+						type: "string",
+						required: false,
+					},
+					// The serialized key stretching profile the record was registered
+					// with. Missing means DEFAULT_KEY_STRETCHING.
+					keyStretching: {
+						type: "string",
+						required: false,
+					},
+					migratedFrom: {
+						type: "string",
+						required: false,
+					},
+				},
+			},
+			session: {
+				fields: {
+					// Set by /opaque/verify-password, see isPasswordRecentlyVerified
+					passwordVerifiedAt: {
+						type: "date",
+						required: false,
+						input: false,
+					},
+					// Set for sessions bound to an OPAQUE session key, see channelBinding
+					channelBindingKey: {
+						type: "string",
+						required: false,
+						input: false,
+						returned: false,
+					},
 				},
 			},
+			...(options?.vault
+				? {
+						opaqueVault: {
+							fields: {
+								userId: {
+									type: "string",
+									required: true,
+									unique: true,
+									references: { model: "user", field: "id", onDelete: "cascade" },
+								},
+								ciphertext: {
+									type: "string",
+									required: true,
+								},
+								version: {
+									type: "number",
+									required: true,
+								},
+								createdAt: {
+									type: "date",
+									required: true,
+								},
+								updatedAt: {
+									type: "date",
+									required: true,
+								},
+							},
+						},
+					}
+				: {}),
+			...(options?.auditLog
+				? {
+						opaqueAuditLog: {
+							fields: {
+								event: {
+									type: "string",
+									required: true,
+								},
+								identifier: {
+									type: "string",
+									required: false,
+								},
+								// Not a reference, so events outlive deleted users
+								userId: {
+									type: "string",
+									required: false,
+								},
+								ipAddress: {
+									type: "string",
+									required: false,
+								},
+								userAgent: {
+									type: "string",
+									required: false,
+								},
+								createdAt: {
+									type: "date",
+									required: true,
+								},
+							},
+						},
+					}
+				: {}),
+		},
+		hooks: {
+			before: [
+				{
+					// Bound sessions only accept requests signed with the session key
+					// of their login, so a stolen session cookie is useless on its own
+					matcher: () => channelBindingMaxSkew !== undefined,
+					handler: createAuthMiddleware(async (ctx) => {
+						// Calls through auth.api come from the server itself
+						if (
+							!ctx.request ||
+							CHANNEL_BINDING_EXEMPT_PATHS.some((path) => ctx.path.startsWith(path))
+						) {
+							return;
+						}
+						const session = await getSessionFromCtx(ctx);
+						if (!session) {
+							return;
+						}
+						const bindingKey = await findChannelBindingKey(
+							ctx,
+							session.session.token,
+						);
+						if (bindingKey) {
+							await assertSignedRequest(
+								ctx,
+								ctx.request,
+								bindingKey,
+								channelBindingMaxSkew as number,
+							);
+						}
+					}),
+				},
+				{
+					// Better Auth's change-email flow would leave the record bound to
+					// the old email, and the user unable to sign in
+					matcher: (context) =>
+						identifier.field === "email" && context.path === "/change-email",
+					handler: createAuthMiddleware(async (ctx) => {
+						const session = await getSessionFromCtx(ctx);
+						if (session && (await findOpaqueAccount(ctx, session.user.id))) {
+							throw opaqueError("BAD_REQUEST", "USE_OPAQUE_CHANGE_EMAIL");
+						}
+					}),
+				},
+			],
+			after: [
+				{
+					// A sign-in with the legacy password is the only proof of it the
+					// migration gets, so it hands out a token for the new session
+					matcher: (context) =>
+						!!options?.credentialMigration &&
+						(context.path === "/sign-in/email" ||
+							context.path === "/sign-in/username"),
+					handler: createAuthMiddleware(async (ctx) => {
+						const newSession = ctx.context.newSession;
+						const returned = ctx.context.returned;
+						// Nothing to do for failed sign-ins, or ones waiting for a
+						// second factor
+						if (
+							!newSession ||
+							!returned ||
+							typeof returned !== "object" ||
+							!("token" in returned)
+						) {
+							return;
+						}
+						if (!(await findAccountToMigrate(ctx, newSession.user.id))) {
+							return;
+						}
+						const token = await encryptSessionToken(
+							"migrate",
+							newSession.session,
+							ctx.context.secret,
+						);
+						return ctx.json({ ...returned, opaqueMigration: { token } });
+					}),
+				},
+				{
+					// OPAQUE sign-ins waiting for a second factor get their rekey token
+					// from whichever verification creates the session
+					matcher: (context) => TWO_FACTOR_VERIFY_PATHS.includes(context.path),
+					handler: createAuthMiddleware(async (ctx) => {
+						const newSession = ctx.context.newSession;
+						const returned = ctx.context.returned;
+						if (
+							!newSession ||
+							!returned ||
+							typeof returned !== "object" ||
+							!("token" in returned)
+						) {
+							return;
+						}
+						if (!(await takeTwoFactorRekey(ctx, newSession.user.id))) {
+							return;
+						}
+						const token = await encryptSessionToken(
+							"rekey",
+							newSession.session,
+							ctx.context.secret,
+						);
+						return ctx.json({ ...returned, rekey: { token } });
+					}),
+				},
+			],
 		},
 		endpoints: {
 			getRegisterChallenge: createAuthEndpoint(
@@ -57,12 +749,13 @@ export const opaque = (options?: OpaqueOptions) => {
 				{
 					method: "POST",
 					body: z.object({
-						email: z.string().email(),
+						...identifierFields,
 						registrationRequest: z.string().base64url(),
 					}),
 				},
-				async (ctx) => {
-					const { email, registrationRequest } = ctx.body;
+				withResponseTime(responseTime, async (ctx) => {
+					const { registrationRequest } = ctx.body;
+					const { normalized: userIdentifier } = readIdentifier(ctx.body);
 
 					validateBase64Length(
 						registrationRequest,
@@ -75,37 +768,57 @@ export const opaque = (options?: OpaqueOptions) => {
 					// CRITICAL: Check if user exists to ensure timing consistency
 					// Even though we don't use this information here, checking ensures
 					// both new and existing user registrations hit the database similarly
-					const existingUser =
-						await ctx.context.internalAdapter.findUserByEmail(email);
+					const existingUser = await identifier.findUser(ctx, userIdentifier);
 
 					ctx.context.logger.debug(
-						`[CHALLENGE] ${email.substring(0, 20)}... - User exists: ${!!existingUser} - DB lookup: ${(performance.now() - startTime).toFixed(2)}ms`,
+						`[CHALLENGE] ${userIdentifier.substring(0, 20)}... - User exists: ${!!existingUser} - DB lookup: ${(performance.now() - startTime).toFixed(2)}ms`,
 					);
 
 					const { registrationResponse } = server.createRegistrationResponse({
-						userIdentifier: email,
+						userIdentifier,
 						registrationRequest,
-						serverSetup: OPAQUE_SERVER_KEY,
+						serverSetup: getCurrentServerKey().key,
 					});
 
 					ctx.context.logger.debug(
 						`[CHALLENGE] Total time: ${(performance.now() - startTime).toFixed(2)}ms`,
 					);
-					return { challenge: registrationResponse };
-				},
+					return { challenge: registrationResponse, keyStretching };
+				}),
 			),
 			completeRegistration: createAuthEndpoint(
 				"/sign-up/opaque/complete",
 				{
 					method: "POST",
-					body: z.object({
-						email: z.string().email(),
-						name: z.string().min(1).max(100),
-						registrationRecord: z.string().base64url(),
-					}),
+					body: z
+						.object({
+							email: z.string(),
+							username: z.string().optional(),
+							name: z.string().min(1).max(100),
+							registrationRecord: z.string().base64url(),
+							callbackURL: z.string().optional(),
+						})
+						// Any other field is checked against user.additionalFields
+						.catchall(z.unknown()),
 				},
-				async (ctx) => {
-					const { email, name, registrationRecord } = ctx.body;
+				withResponseTime(responseTime, async (ctx) => {
+					const {
+						email: rawEmail,
+						username: _username,
+						name,
+						registrationRecord,
+						callbackURL,
+						...rest
+					} = ctx.body;
+					const { raw, normalized: userIdentifier } = readIdentifier(ctx.body);
+					// Normalized before it is validated, the same way sign-in reads it
+					const email =
+						identifier.field === "email"
+							? userIdentifier
+							: emailIdentifier.normalize(rawEmail);
+					if (!email) {
+						throw opaqueError("BAD_REQUEST", "INVALID_EMAIL");
+					}
 
 					validateBase64LengthRange(
 						registrationRecord,
@@ -114,16 +827,37 @@ export const opaque = (options?: OpaqueOptions) => {
 						"registration record",
 					);
 
+					// Validated and hooked before the lookup, so invalid input and
+					// rejections don't depend on whether the user exists
+					const additionalFields = parseUserInput(
+						ctx.context.options,
+						rest,
+						"create",
+					);
+					await options?.beforeRegister?.(
+						{ identifier: userIdentifier, email, name, additionalFields },
+						ctx,
+					);
+
 					const startTime = performance.now();
 					const now = new Date();
 
-					const existingUser =
-						await ctx.context.internalAdapter.findUserByEmail(email);
+					// When signing in by something other than email, the email can
+					// still belong to another user. Both lookups always run so the
+					// timing doesn't depend on which one matched.
+					const [identifierUser, emailUser] = await Promise.all([
+						identifier.findUser(ctx, userIdentifier),
+						identifier.field === "email"
+							? null
+							: ctx.context.internalAdapter.findUserByEmail(email),
+					]);
+					const existingUser = identifierUser || emailUser;
 
 					ctx.context.logger.debug(
-						`[COMPLETE] ${email.substring(0, 20)}... - User exists: ${!!existingUser} - DB lookup: ${(performance.now() - startTime).toFixed(2)}ms`,
+						`[COMPLETE] ${userIdentifier.substring(0, 20)}... - User exists: ${!!existingUser} - DB lookup: ${(performance.now() - startTime).toFixed(2)}ms`,
 					);
 
+					let createdUser: User | null = null;
 					if (!existingUser) {
 						// User doesn't exist - proceed with actual creation
 						const userId = ctx.context.generateId({ model: "user" });
@@ -134,22 +868,46 @@ export const opaque = (options?: OpaqueOptions) => {
 						}
 
 						const user = await ctx.context.internalAdapter.createUser({
+							...additionalFields,
 							email,
 							name,
+							...identifier.getUserFields?.(raw, userIdentifier),
 							createdAt: now,
 							updatedAt: now,
 						});
+						createdUser = user;
 
 						await ctx.context.internalAdapter.createAccount({
 							accountId,
 							providerId: "opaque",
 							userId: user.id,
 							registrationRecord,
+							serverKeyId: getCurrentServerKey().id,
+							keyStretching: currentKeyStretching,
 							createdAt: now,
 							updatedAt: now,
 						});
 
-						if (options?.insecureCreateSessionOnRegister) {
+						if (
+							ctx.context.options.emailVerification?.sendOnSignUp ||
+							ctx.context.options.emailAndPassword?.requireEmailVerification
+						) {
+							// Not awaited, so sending the email doesn't make new sign-ups
+							// measurably slower than attempts for existing users
+							sendOpaqueVerificationEmail(ctx, user, callbackURL).catch(
+								(error) => {
+									ctx.context.logger.error(
+										"Failed to send verification email",
+										error,
+									);
+								},
+							);
+						}
+
+						if (
+							options?.insecureCreateSessionOnRegister &&
+							!ctx.context.options.emailAndPassword?.requireEmailVerification
+						) {
 							const session = await ctx.context.internalAdapter.createSession(
 								user.id,
 								ctx,
@@ -169,6 +927,17 @@ export const opaque = (options?: OpaqueOptions) => {
 						);
 					}
 
+					await options?.afterRegister?.(
+						{ identifier: userIdentifier, user: createdUser },
+						ctx,
+					);
+					await audit(
+						ctx,
+						"registration_attempted",
+						userIdentifier,
+						createdUser?.id,
+					);
+
 					// Always return success (whether user was created or already existed)
 					// This prevents user enumeration through registration attempts
 					return ctx.json(
@@ -180,7 +949,7 @@ export const opaque = (options?: OpaqueOptions) => {
 							status: 201,
 						},
 					);
-				},
+				}),
 			),
 
 			getLoginChallenge: createAuthEndpoint(
@@ -188,12 +957,19 @@ export const opaque = (options?: OpaqueOptions) => {
 				{
 					method: "POST",
 					body: z.object({
-						email: z.string().email(),
+						...identifierFields,
 						loginRequest: z.string().base64url(),
+						// Sent by opaqueClient() to retry with the email as typed, which
+						// records from before emails were normalized are bound to
+						legacyIdentifier: z.boolean().optional(),
 					}),
 				},
-				async (ctx) => {
-					const { email, loginRequest } = ctx.body;
+				withResponseTime(responseTime, async (ctx) => {
+					const { loginRequest } = ctx.body;
+					const { raw, normalized: userIdentifier } = readIdentifier(ctx.body);
+					const legacyIdentifier =
+						ctx.body.legacyIdentifier === true && identifier.field === "email";
+					const bindingIdentifier = legacyIdentifier ? raw : userIdentifier;
 
 					validateBase64Length(
 						loginRequest,
@@ -201,52 +977,78 @@ export const opaque = (options?: OpaqueOptions) => {
 						"login request",
 					);
 
-					// CRITICAL: Always generate a dummy record for timing attack resistance
-					// Both code paths (user exists/doesn't exist) must perform the same expensive operations
-					const [dummyRecord, user] = await Promise.all([
-						createDummyRegistrationRecord(),
-						ctx.context.internalAdapter.findUserByEmail(email),
+					if (bruteForceOptions) {
+						await assertLoginAllowed(ctx, userIdentifier, bruteForceOptions);
+					}
+
+					// CRITICAL: Always derive the fake record for timing attack resistance
+					// Both code paths (user exists/doesn't exist) must perform the same operations
+					let serverKey = getCurrentServerKey();
+					const [fakeRecord, fakeKeyStretching, user] = await Promise.all([
+						createFakeRegistrationRecord(serverKey.key, bindingIdentifier),
+						pickFakeKeyStretching(
+							serverKey.key,
+							bindingIdentifier,
+							fakeKeyStretchingProfiles,
+						),
+						identifier.findUser(ctx, userIdentifier),
 					]);
 
 					let registrationRecord: string;
-					let userToEncrypt: {
-						id: string;
-						email: string;
-						name: string;
-						[key: string]: unknown;
-					} | null = null;
+					// Unknown users get a profile that accounts may still be on, so the
+					// profile doesn't tell them apart from accounts yet to be moved
+					let accountKeyStretching = fakeKeyStretching;
+					// Only the ID is sealed, so the state's size doesn't depend on the
+					// user's fields
+					const legacy = legacyIdentifier ? { legacyIdentifier: true } : {};
+					let userToEncrypt: { id: string; legacyIdentifier?: boolean };
 
 					if (!user) {
-						// User doesn't exist - use the dummy record
-						registrationRecord = dummyRecord;
-						userToEncrypt = {
-							id: generateRandomString(12),
-							email,
-							name: generateRandomString(24),
-						};
+						// User doesn't exist - use the fake record
+						registrationRecord = fakeRecord;
+						userToEncrypt = { id: generateRandomString(12), ...legacy };
 					} else {
-						// User exists - get their real record but discard the dummy we generated
-						userToEncrypt = user.user;
-						const opaqueAccount = await findOpaqueAccount(ctx, user.user.id);
-						registrationRecord =
-							opaqueAccount?.registrationRecord || dummyRecord;
+						// User exists - get their real record but discard the fake we derived
+						userToEncrypt = { id: user.id, ...legacy };
+						const opaqueAccount = await findOpaqueAccount(ctx, user.id);
+						// Use the key the record was registered under. If that key has been
+						// removed from the keyring the record is unusable, so fall back to the fake.
+						const accountServerKey = opaqueAccount
+							? getServerKey(opaqueAccount.serverKeyId)
+							: undefined;
+						if (opaqueAccount?.registrationRecord && accountServerKey) {
+							registrationRecord = opaqueAccount.registrationRecord;
+							serverKey = accountServerKey;
+							accountKeyStretching = parseKeyStretching(
+								opaqueAccount.keyStretching,
+							);
+						} else {
+							registrationRecord = fakeRecord;
+						}
 					}
 
 					const { loginResponse, serverLoginState } = server.startLogin({
-						userIdentifier: email,
+						userIdentifier: bindingIdentifier,
 						startLoginRequest: loginRequest,
-						serverSetup: OPAQUE_SERVER_KEY,
+						serverSetup: serverKey.key,
 						registrationRecord,
 					});
 
-					const encryptedServerState = await encryptServerLoginState(
+					const encryptedServerState = await issueLoginState(
+						ctx,
 						serverLoginState,
-						ctx.context.secret,
 						userToEncrypt,
+						userIdentifier,
+						loginStateStorage,
+						loginStateExpiresIn,
 					);
 
-					return { challenge: loginResponse, state: encryptedServerState };
-				},
+					return {
+						challenge: loginResponse,
+						state: encryptedServerState,
+						keyStretching: accountKeyStretching,
+					};
+				}),
 			),
 
 			completeLogin: createAuthEndpoint(
@@ -254,60 +1056,173 @@ export const opaque = (options?: OpaqueOptions) => {
 				{
 					method: "POST",
 					body: z.object({
-						email: z.string().email(),
+						...identifierFields,
 						loginResult: z.string().base64url(),
 						encryptedServerState: z.string(),
 						dontRememberMe: z.boolean().optional(),
+						callbackURL: z.string().optional(),
 					}),
 				},
-				async (ctx) => {
-					const { loginResult, encryptedServerState, dontRememberMe } =
+				withResponseTime(responseTime, async (ctx) => {
+					const { loginResult, encryptedServerState, dontRememberMe, callbackURL } =
 						ctx.body;
-					let serverLoginState: string;
-					let user: User | null;
-
-					try {
-						({ serverLoginState, user } = await decryptServerLoginState(
+					const { normalized: userIdentifier } = readIdentifier(ctx.body);
+					// Every rejection is reported, so replays and tampering show up too
+					const loginFailed = async (reason: OpaqueLoginFailureReason) =>
+						await options?.onLoginFailure?.(
+							{ identifier: userIdentifier, reason },
+							ctx,
+						);
+					// Each state can only be used once, whether or not the login succeeds
+					const {
+						serverLoginState,
+						user: sealedUser,
+						identifier: stateIdentifier,
+					} = await redeemLoginState(
+							ctx,
 							encryptedServerState,
-							ctx.context.secret,
-						));
-					} catch {
-						throw new APIError("BAD_REQUEST", {
-							message: "Invalid login state",
+							loginStateStorage,
+							loginStateExpiresIn,
+						).catch(async (error) => {
+							if (error instanceof APIError) {
+								if (error.body?.code === "STATE_EXPIRED") {
+									await loginFailed("expired_state");
+									await audit(ctx, "login_state_expired", userIdentifier);
+								} else if (error.body?.code === "INVALID_STATE") {
+									await loginFailed("invalid_state");
+									await audit(ctx, "login_state_invalid", userIdentifier);
+								}
+							}
+							throw error;
 						});
+
+					// The state must have been issued for the identifier being signed in.
+					// Unknown users get a state sealed with the submitted identifier, so
+					// this check behaves the same whether or not the user exists.
+					if (stateIdentifier !== userIdentifier) {
+						await loginFailed("identifier_mismatch");
+						await audit(ctx, "login_state_invalid", userIdentifier);
+						throw opaqueError("BAD_REQUEST", "INVALID_STATE");
 					}
 
-					const { sessionKey } = server.finishLogin({
-						finishLoginRequest: loginResult,
-						serverLoginState: serverLoginState,
-					});
+					// Counted as a failure before the proof is checked, so challenges
+					// fetched before a lockout can't be completed all at once. Unknown
+					// users always fail, so they are throttled exactly like registered
+					// users and a lockout reveals nothing.
+					if (bruteForceOptions) {
+						await reserveLoginAttempt(ctx, userIdentifier, bruteForceOptions).catch(
+							async (error) => {
+								if (
+									error instanceof APIError &&
+									error.body?.code === "TOO_MANY_ATTEMPTS"
+								) {
+									await loginFailed("too_many_attempts");
+								}
+								throw error;
+							},
+						);
+					}
+
+					const sessionKey = finishServerLogin(serverLoginState, loginResult);
 
 					if (!sessionKey) {
-						throw new APIError("UNAUTHORIZED", {
-							message: "Login failed",
-						});
+						await loginFailed("invalid_credentials");
+						await audit(ctx, "login_failed", userIdentifier, sealedUser?.id);
+						throw opaqueError("UNAUTHORIZED", "LOGIN_FAILED");
+					}
+
+					if (bruteForceOptions) {
+						await clearLoginFailures(ctx, userIdentifier);
 					}
 
 					// If user is null, it means the user didn't exist during challenge phase
 					// This shouldn't happen with valid OPAQUE flow, but we check for safety
+					const user = sealedUser
+						? await ctx.context.internalAdapter.findUserById(sealedUser.id)
+						: null;
 					if (!user) {
-						throw new APIError("UNAUTHORIZED", {
-							message: "Login failed",
+						await loginFailed("invalid_credentials");
+						throw opaqueError("UNAUTHORIZED", "LOGIN_FAILED");
+					}
+
+					// Only reachable with the right password, so this can't be used to
+					// find out whether an account exists
+					if (
+						ctx.context.options.emailAndPassword?.requireEmailVerification &&
+						!user.emailVerified
+					) {
+						if (ctx.context.options.emailVerification?.sendOnSignIn) {
+							await sendOpaqueVerificationEmail(ctx, user, callbackURL);
+						}
+						throw opaqueError("FORBIDDEN", "EMAIL_NOT_VERIFIED");
+					}
+
+					await options?.onLoginSuccess?.(
+						{ identifier: userIdentifier, user: user as User },
+						ctx,
+					);
+					await audit(ctx, "login_succeeded", userIdentifier, user.id);
+
+					// Records under an older key, key stretching profile or unnormalized
+					// email are migrated by the client through a re-registration, which
+					// it can only do while it still has the password
+					const opaqueAccount = await findOpaqueAccount(ctx, user.id);
+					const needsRekey =
+						!!opaqueAccount &&
+						(!!sealedUser?.legacyIdentifier || isOutdatedAccount(opaqueAccount));
+
+					const twoFactorPlugin = findTwoFactorPlugin(ctx, user);
+					const trustedDeviceToken = twoFactorPlugin
+						? await findTrustedDeviceToken(ctx, user.id)
+						: null;
+					if (twoFactorPlugin && !trustedDeviceToken) {
+						// The token needs the session, so it is issued once the second
+						// factor is verified
+						await startTwoFactorVerification(
+							ctx,
+							twoFactorPlugin,
+							user.id,
+							dontRememberMe || false,
+							needsRekey,
+						);
+						return ctx.json({
+							twoFactorRedirect: true as const,
 						});
 					}
 
-					const session = await ctx.context.internalAdapter.createSession(
+					const channelBinding =
+						channelBindingMaxSkew !== undefined
+							? { channelBindingKey: await deriveChannelBindingKey(sessionKey) }
+							: undefined;
+					const createdSession = await ctx.context.internalAdapter.createSession(
 						user.id,
 						ctx,
 						dontRememberMe || false,
+						channelBinding,
 					);
-					if (!session) {
-						throw new APIError("INTERNAL_SERVER_ERROR", {
-							message: "Failed to create session",
-						});
+					if (!createdSession) {
+						throw opaqueError("INTERNAL_SERVER_ERROR", "FAILED_TO_CREATE_SESSION");
 					}
+					// The cookie cache would otherwise carry the binding key
+					const { channelBindingKey: _bindingKey, ...session } =
+						createdSession as Session & { channelBindingKey?: string };
 
 					await setSessionCookie(ctx, { session, user: user as User });
+					if (trustedDeviceToken) {
+						await refreshTrustedDevice(ctx, trustedDeviceToken, session.token);
+					}
+
+					const rekey = needsRekey
+						? {
+								rekey: {
+									token: await encryptSessionToken(
+										"rekey",
+										session,
+										ctx.context.secret,
+									),
+								},
+							}
+						: {};
 
 					return ctx.json({
 						token: session.token,
@@ -315,9 +1230,1292 @@ export const opaque = (options?: OpaqueOptions) => {
 						user: {
 							id: user.id,
 						},
+						...rekey,
+						...(channelBinding ? { channelBinding: true as const } : {}),
+					});
+				}),
+			),
+
+			getChangePasswordChallenge: createAuthEndpoint(
+				"/opaque/change-password/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginRequest: z.string().base64url(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { loginRequest, registrationRequest } = ctx.body;
+					const { user } = ctx.context.session;
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					// Proof of the current password
+					const {
+						challenge,
+						state,
+						userIdentifier,
+						keyStretching: accountKeyStretching,
+					} = await startAccountLogin(
+						ctx,
+						user,
+						loginRequest,
+					);
+
+					// Registration of the new password, always under the current key
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier,
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return {
+						challenge,
+						state,
+						keyStretching: accountKeyStretching,
+						registrationChallenge: registrationResponse,
+						registrationKeyStretching: keyStretching,
+						vault: await findVaultToRewrap(ctx, user.id),
+					};
+				},
+			),
+
+			completeChangePassword: createAuthEndpoint(
+				"/opaque/change-password/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginResult: z.string().base64url(),
+						encryptedServerState: z.string(),
+						registrationRecord: z.string().base64url(),
+						revokeOtherSessions: z.boolean().optional(),
+						// The vault re-wrapped with the new export key, if there is one
+						vault: vaultBody.optional(),
+					}),
+				},
+				async (ctx) => {
+					const {
+						loginResult,
+						encryptedServerState,
+						registrationRecord,
+						revokeOtherSessions,
+						vault,
+					} = ctx.body;
+					const session = ctx.context.session;
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					await finishAccountLogin(
+						ctx,
+						session.user,
+						encryptedServerState,
+						loginResult,
+					);
+
+					const opaqueAccount = await findOpaqueAccount(ctx, session.user.id);
+					if (!opaqueAccount) {
+						throw opaqueError("BAD_REQUEST", "OPAQUE_ACCOUNT_NOT_FOUND");
+					}
+
+					await replaceRegistrationRecord(
+						ctx,
+						opaqueAccount,
+						registrationRecord,
+						vault,
+					);
+
+					let token: string | null = null;
+					if (revokeOtherSessions) {
+						// The new session stays bound to the key the client already signs with
+						const channelBindingKey =
+							channelBindingMaxSkew !== undefined
+								? await findChannelBindingKey(ctx, session.session.token)
+								: null;
+						await ctx.context.internalAdapter.deleteSessions(session.user.id);
+						const createdSession = await ctx.context.internalAdapter.createSession(
+							session.user.id,
+							ctx,
+							false,
+							channelBindingKey ? { channelBindingKey } : undefined,
+						);
+						if (!createdSession) {
+							throw opaqueError("INTERNAL_SERVER_ERROR", "FAILED_TO_CREATE_SESSION");
+						}
+						const { channelBindingKey: _bindingKey, ...newSession } =
+							createdSession as Session & { channelBindingKey?: string };
+						await setSessionCookie(ctx, {
+							session: newSession,
+							user: session.user,
+						});
+						token = newSession.token;
+					}
+
+					return ctx.json({
+						token,
+						success: true,
+					});
+				},
+			),
+
+			getVerifyPasswordChallenge: createAuthEndpoint(
+				"/opaque/verify-password/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const {
+						challenge,
+						state,
+						keyStretching: accountKeyStretching,
+					} = await startAccountLogin(
+						ctx,
+						ctx.context.session.user,
+						ctx.body.loginRequest,
+					);
+					return { challenge, state, keyStretching: accountKeyStretching };
+				},
+			),
+
+			completeVerifyPassword: createAuthEndpoint(
+				"/opaque/verify-password/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginResult: z.string().base64url(),
+						encryptedServerState: z.string(),
+					}),
+				},
+				async (ctx) => {
+					const { loginResult, encryptedServerState } = ctx.body;
+					const { session, user } = ctx.context.session;
+
+					await finishAccountLogin(ctx, user, encryptedServerState, loginResult);
+
+					const passwordVerifiedAt = new Date();
+					const updatedSession =
+						await ctx.context.internalAdapter.updateSession(session.token, {
+							passwordVerifiedAt,
+						} as Partial<Session>);
+
+					// A cached session cookie would hide the marker until it expires
+					if (ctx.context.options.session?.cookieCache?.enabled) {
+						await setSessionCookie(ctx, {
+							session: updatedSession ?? { ...session, passwordVerifiedAt },
+							user,
+						});
+					}
+
+					return ctx.json({
+						success: true,
+						passwordVerifiedAt,
 					});
 				},
 			),
+
+			getDeleteUserChallenge: createAuthEndpoint(
+				"/opaque/delete-user/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					assertDeleteUserEnabled(ctx);
+
+					const {
+						challenge,
+						state,
+						keyStretching: accountKeyStretching,
+					} = await startAccountLogin(
+						ctx,
+						ctx.context.session.user,
+						ctx.body.loginRequest,
+					);
+					return { challenge, state, keyStretching: accountKeyStretching };
+				},
+			),
+
+			completeDeleteUser: createAuthEndpoint(
+				"/opaque/delete-user/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						loginResult: z.string().base64url(),
+						encryptedServerState: z.string(),
+						callbackURL: z.string().optional(),
+					}),
+				},
+				async (ctx) => {
+					assertDeleteUserEnabled(ctx);
+
+					const { loginResult, encryptedServerState, callbackURL } = ctx.body;
+					const { user } = ctx.context.session;
+
+					await finishAccountLogin(ctx, user, encryptedServerState, loginResult);
+
+					// Like the built-in flow, a confirmed password still needs the email
+					// confirmation when one is configured
+					const deleteUser = ctx.context.options.user?.deleteUser;
+					if (deleteUser?.sendDeleteAccountVerification) {
+						const token = generateRandomString(32, "0-9", "a-z");
+						await ctx.context.internalAdapter.createVerificationValue(
+							{
+								value: user.id,
+								identifier: `${DELETE_ACCOUNT_IDENTIFIER_PREFIX}${token}`,
+								expiresAt: new Date(
+									Date.now() +
+										(deleteUser.deleteTokenExpiresIn || 60 * 60 * 24) * 1000,
+								),
+							},
+							ctx,
+						);
+						const url = `${ctx.context.baseURL}/opaque/delete-user/callback?token=${token}&callbackURL=${encodeURIComponent(callbackURL || "/")}`;
+						await deleteUser.sendDeleteAccountVerification(
+							{ user, url, token },
+							ctx.request,
+						);
+						return ctx.json({
+							success: true,
+							message: "Verification email sent",
+						});
+					}
+
+					await deleteOpaqueUser(ctx, user);
+					return ctx.json({
+						success: true,
+						message: "User deleted",
+					});
+				},
+			),
+
+			deleteUserCallback: createAuthEndpoint(
+				"/opaque/delete-user/callback",
+				{
+					method: "GET",
+					query: z.object({
+						token: z.string(),
+						callbackURL: z.string().optional(),
+					}),
+					use: [originCheck((ctx) => ctx.query.callbackURL)],
+				},
+				async (ctx) => {
+					assertDeleteUserEnabled(ctx);
+
+					const session = await getSessionFromCtx(ctx);
+					const verification = session
+						? await ctx.context.internalAdapter.findVerificationValue(
+								`${DELETE_ACCOUNT_IDENTIFIER_PREFIX}${ctx.query.token}`,
+							)
+						: null;
+					if (
+						!session ||
+						!verification ||
+						verification.expiresAt < new Date() ||
+						verification.value !== session.user.id
+					) {
+						throw opaqueError("NOT_FOUND", "INVALID_TOKEN");
+					}
+
+					await deleteOpaqueUser(ctx, session.user);
+
+					if (ctx.query.callbackURL) {
+						throw ctx.redirect(ctx.query.callbackURL);
+					}
+					return ctx.json({
+						success: true,
+						message: "User deleted",
+					});
+				},
+			),
+
+			requestEmailChange: createAuthEndpoint(
+				"/opaque/change-email/request",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						newEmail: z.string(),
+						callbackURL: z.string().optional(),
+					}),
+				},
+				async (ctx) => {
+					assertChangeEmailEnabled(ctx);
+
+					const { user } = ctx.context.session;
+					const email = emailIdentifier.normalize(ctx.body.newEmail);
+					if (!email) {
+						throw opaqueError("BAD_REQUEST", "INVALID_EMAIL");
+					}
+					if (email === user.email) {
+						throw opaqueError("BAD_REQUEST", "EMAIL_IS_THE_SAME");
+					}
+					if (await ctx.context.internalAdapter.findUserByEmail(email)) {
+						throw opaqueError("BAD_REQUEST", "COULD_NOT_UPDATE_EMAIL");
+					}
+					if (!(await findOpaqueAccount(ctx, user.id))) {
+						throw opaqueError("BAD_REQUEST", "OPAQUE_ACCOUNT_NOT_FOUND");
+					}
+
+					const sendVerificationEmail =
+						ctx.context.options.emailVerification?.sendVerificationEmail;
+					if (!sendVerificationEmail) {
+						ctx.context.logger.error("Verification email isn't enabled.");
+						throw opaqueError("BAD_REQUEST", "VERIFICATION_EMAIL_DISABLED");
+					}
+
+					const token = generateRandomString(32, "0-9", "a-z");
+					const expiresAt = new Date(
+						Date.now() +
+							(ctx.context.options.emailVerification?.expiresIn || 3600) * 1000,
+					);
+					await ctx.context.internalAdapter.createVerificationValue(
+						{
+							value: JSON.stringify({ userId: user.id, email }),
+							identifier: `${CHANGE_EMAIL_IDENTIFIER_PREFIX}${token}`,
+							expiresAt,
+						},
+						ctx,
+					);
+					// Lets deleting the user find the change by user ID
+					await ctx.context.internalAdapter.createVerificationValue(
+						{
+							value: user.id,
+							identifier: `${CHANGE_EMAIL_USER_IDENTIFIER_PREFIX}${token}`,
+							expiresAt,
+						},
+						ctx,
+					);
+
+					// Sent to the new address, which is what the link proves
+					const url = `${ctx.context.baseURL}/opaque/change-email/${token}?callbackURL=${encodeURIComponent(ctx.body.callbackURL || "/")}`;
+					await sendVerificationEmail(
+						{ user: { ...user, email }, url, token },
+						ctx.request,
+					);
+
+					return ctx.json({
+						success: true,
+						message: "Verification email sent",
+					});
+				},
+			),
+
+			verifyEmailChange: createAuthEndpoint(
+				"/opaque/change-email/:token",
+				{
+					method: "GET",
+					query: z.object({
+						callbackURL: z.string(),
+					}),
+					use: [originCheck((ctx) => ctx.query.callbackURL)],
+				},
+				async (ctx) => {
+					const { token } = ctx.params;
+					const redirectURL = new URL(
+						ctx.query.callbackURL,
+						ctx.context.baseURL,
+					);
+
+					const change = token ? await findEmailChange(ctx, token) : null;
+
+					if (!change) {
+						redirectURL.searchParams.set("error", "INVALID_TOKEN");
+					} else {
+						redirectURL.searchParams.set("token", token as string);
+					}
+					throw ctx.redirect(redirectURL.href);
+				},
+			),
+
+			getChangeEmailChallenge: createAuthEndpoint(
+				"/opaque/change-email/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						token: z.string(),
+						loginRequest: z.string().base64url(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					assertChangeEmailEnabled(ctx);
+
+					const { token, loginRequest, registrationRequest } = ctx.body;
+					const { user } = ctx.context.session;
+
+					const email = await findEmailChangeForUser(ctx, user, token);
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					// Proof of the password, under the current email
+					const {
+						challenge,
+						state,
+						keyStretching: accountKeyStretching,
+					} = await startAccountLogin(
+						ctx,
+						user,
+						loginRequest,
+					);
+
+					// The same password registered again, bound to the new email
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier: getUserIdentifier({ ...user, email }),
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return {
+						challenge,
+						state,
+						keyStretching: accountKeyStretching,
+						registrationChallenge: registrationResponse,
+						registrationKeyStretching: keyStretching,
+						vault: await findVaultToRewrap(ctx, user.id),
+					};
+				},
+			),
+
+			completeChangeEmail: createAuthEndpoint(
+				"/opaque/change-email/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						token: z.string(),
+						loginResult: z.string().base64url(),
+						encryptedServerState: z.string(),
+						registrationRecord: z.string().base64url(),
+						// The vault re-wrapped with the new export key, if there is one
+						vault: vaultBody.optional(),
+					}),
+				},
+				async (ctx) => {
+					assertChangeEmailEnabled(ctx);
+
+					const {
+						token,
+						loginResult,
+						encryptedServerState,
+						registrationRecord,
+						vault,
+					} = ctx.body;
+					const { session, user } = ctx.context.session;
+
+					const email = await findEmailChangeForUser(ctx, user, token);
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					await finishAccountLogin(ctx, user, encryptedServerState, loginResult);
+
+					const opaqueAccount = await findOpaqueAccount(ctx, user.id);
+					if (!opaqueAccount) {
+						throw opaqueError("BAD_REQUEST", "OPAQUE_ACCOUNT_NOT_FOUND");
+					}
+
+					// The link in the email proved the new address
+					await replaceRegistrationRecord(
+						ctx,
+						opaqueAccount,
+						registrationRecord,
+						vault,
+						{ email, emailVerified: true },
+					);
+
+					await ctx.context.internalAdapter.deleteVerificationByIdentifier(
+						`${CHANGE_EMAIL_IDENTIFIER_PREFIX}${token}`,
+					);
+					await ctx.context.internalAdapter.deleteVerificationByIdentifier(
+						`${CHANGE_EMAIL_USER_IDENTIFIER_PREFIX}${token}`,
+					);
+
+					await setSessionCookie(ctx, {
+						session,
+						user: { ...user, email, emailVerified: true },
+					});
+
+					return ctx.json({
+						success: true,
+					});
+				},
+			),
+
+			requestPasswordReset: createAuthEndpoint(
+				"/opaque/forget-password",
+				{
+					method: "POST",
+					body: z.object({
+						...identifierFields,
+						redirectTo: z.string().optional(),
+					}),
+				},
+				withResponseTime(responseTime, async (ctx) => {
+					const sendResetPassword =
+						ctx.context.options.emailAndPassword?.sendResetPassword;
+					if (!sendResetPassword) {
+						ctx.context.logger.error(
+							"Reset password isn't enabled. Please pass an emailAndPassword.sendResetPassword function in your auth config!",
+						);
+						throw opaqueError("BAD_REQUEST", "RESET_PASSWORD_DISABLED");
+					}
+
+					const { redirectTo } = ctx.body;
+					const { normalized: userIdentifier } = readIdentifier(ctx.body);
+					const startTime = performance.now();
+
+					const existingUser = await identifier.findUser(ctx, userIdentifier);
+
+					ctx.context.logger.debug(
+						`[RESET] ${userIdentifier.substring(0, 20)}... - User exists: ${!!existingUser} - DB lookup: ${(performance.now() - startTime).toFixed(2)}ms`,
+					);
+
+					if (existingUser) {
+						const token = generateRandomString(24);
+						const expiresIn =
+							ctx.context.options.emailAndPassword?.resetPasswordTokenExpiresIn ||
+							60 * 60;
+
+						await ctx.context.internalAdapter.createVerificationValue(
+							{
+								value: existingUser.id,
+								identifier: `${RESET_PASSWORD_IDENTIFIER_PREFIX}${token}`,
+								expiresAt: new Date(Date.now() + expiresIn * 1000),
+							},
+							ctx,
+						);
+
+						const callbackURL = redirectTo ? encodeURIComponent(redirectTo) : "";
+						const url = `${ctx.context.baseURL}/opaque/reset-password/${token}?callbackURL=${callbackURL}`;
+
+						// Not awaited, so sending the email doesn't make requests for
+						// existing users measurably slower than for unknown ones
+						sendResetPassword(
+							{ user: existingUser, url, token },
+							ctx.request,
+						).catch((error) => {
+							ctx.context.logger.error(
+								"Failed to send reset password email",
+								error,
+							);
+						});
+					}
+
+					// Always return the same response (whether the user exists or not)
+					// This prevents user enumeration through password reset requests
+					return ctx.json({
+						status: true,
+						message:
+							"If this account exists in our system, check your email for the reset link",
+					});
+				}),
+			),
+
+			resetPasswordCallback: createAuthEndpoint(
+				"/opaque/reset-password/:token",
+				{
+					method: "GET",
+					query: z.object({
+						callbackURL: z.string(),
+					}),
+					use: [originCheck((ctx) => ctx.query.callbackURL)],
+				},
+				async (ctx) => {
+					const { token } = ctx.params;
+					const redirectURL = new URL(
+						ctx.query.callbackURL,
+						ctx.context.baseURL,
+					);
+
+					const userId = token
+						? await findResetPasswordUserId(ctx, token)
+						: null;
+
+					if (!userId) {
+						redirectURL.searchParams.set("error", "INVALID_TOKEN");
+					} else {
+						redirectURL.searchParams.set("token", token as string);
+					}
+					throw ctx.redirect(redirectURL.href);
+				},
+			),
+
+			getResetPasswordChallenge: createAuthEndpoint(
+				"/opaque/reset-password/challenge",
+				{
+					method: "POST",
+					body: z.object({
+						token: z.string(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRequest } = ctx.body;
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					const userId = await findResetPasswordUserId(ctx, token);
+					const user = userId
+						? await ctx.context.internalAdapter.findUserById(userId)
+						: null;
+					if (!user) {
+						throw opaqueError("BAD_REQUEST", "INVALID_TOKEN");
+					}
+
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier: getUserIdentifier(user),
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return { challenge: registrationResponse, keyStretching };
+				},
+			),
+
+			completeResetPassword: createAuthEndpoint(
+				"/opaque/reset-password/complete",
+				{
+					method: "POST",
+					body: z.object({
+						token: z.string(),
+						registrationRecord: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRecord } = ctx.body;
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					// Consumed before anything is written, so a token resets the password once
+					const userId = await consumeResetPasswordToken(ctx, token);
+					const user = userId
+						? await ctx.context.internalAdapter.findUserById(userId)
+						: null;
+					if (!user) {
+						throw opaqueError("BAD_REQUEST", "INVALID_TOKEN");
+					}
+
+					const now = new Date();
+					const opaqueAccount = await findOpaqueAccount(ctx, user.id);
+					await ctx.context.adapter.transaction(async (trx) => {
+						if (opaqueAccount) {
+							await ctx.context.internalAdapter.updateAccount(
+								opaqueAccount.id,
+								{
+									registrationRecord,
+									serverKeyId: getCurrentServerKey().id,
+									keyStretching: currentKeyStretching,
+									updatedAt: now,
+								} as Partial<Account>,
+								undefined,
+								trx,
+							);
+						} else {
+							// The user signed up through another method, give them an OPAQUE account
+							const accountId = ctx.context.generateId({ model: "account" });
+							if (!accountId) {
+								throw new Error("Failed to generate account ID");
+							}
+							await ctx.context.internalAdapter.createAccount(
+								{
+									accountId,
+									providerId: "opaque",
+									userId: user.id,
+									registrationRecord,
+									serverKeyId: getCurrentServerKey().id,
+									keyStretching: currentKeyStretching,
+									createdAt: now,
+									updatedAt: now,
+								},
+								undefined,
+								trx,
+							);
+						}
+
+						// The vault was wrapped with the old export key, which is gone now
+						if (options?.vault) {
+							await trx.delete({
+								model: VAULT_MODEL,
+								where: [{ field: "userId", value: user.id }],
+							});
+						}
+
+						// The old password may have been compromised, so sign out everywhere
+						await ctx.context.internalAdapter.deleteSessions(user.id, trx);
+					});
+					// A lockout from guessing the old password shouldn't hold the new one
+					const userIdentifier = identifier.getUserIdentifier(user);
+					if (userIdentifier) {
+						await clearLoginFailures(ctx, userIdentifier);
+					}
+
+					const onPasswordReset =
+						ctx.context.options.emailAndPassword?.onPasswordReset;
+					if (onPasswordReset) {
+						await onPasswordReset({ user }, ctx.request);
+					}
+
+					return ctx.json({ status: true });
+				},
+			),
+
+			getRekeyChallenge: createAuthEndpoint(
+				"/opaque/rekey/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						token: z.string(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRequest } = ctx.body;
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					const userId = await redeemSessionToken(ctx, "rekey", token, {
+						consume: false,
+					});
+					const user = await ctx.context.internalAdapter.findUserById(userId);
+					if (!user) {
+						throw opaqueError("BAD_REQUEST", "INVALID_REKEY_TOKEN");
+					}
+
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier: getUserIdentifier(user),
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return {
+						challenge: registrationResponse,
+						keyStretching,
+						vault: await findVaultToRewrap(ctx, user.id),
+					};
+				},
+			),
+
+			completeRekey: createAuthEndpoint(
+				"/opaque/rekey/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						token: z.string(),
+						registrationRecord: z.string().base64url(),
+						// The vault re-wrapped with the new export key, if there is one
+						vault: vaultBody.optional(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRecord, vault } = ctx.body;
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					const userId = await redeemSessionToken(ctx, "rekey", token, {
+						consume: true,
+					});
+					const opaqueAccount = await findOpaqueAccount(ctx, userId);
+					if (!opaqueAccount) {
+						throw opaqueError("BAD_REQUEST", "INVALID_REKEY_TOKEN");
+					}
+
+					await replaceRegistrationRecord(
+						ctx,
+						opaqueAccount,
+						registrationRecord,
+						vault,
+					);
+
+					return ctx.json({ success: true });
+				},
+			),
+
+			getMigrationChallenge: createAuthEndpoint(
+				"/opaque/migrate/challenge",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						// From the response of the legacy sign-in
+						token: z.string(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRequest } = ctx.body;
+					const { user } = ctx.context.session;
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					await assertCanMigrate(ctx, token, { consume: false });
+
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier: getUserIdentifier(user),
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return { challenge: registrationResponse, keyStretching };
+				},
+			),
+
+			completeMigration: createAuthEndpoint(
+				"/opaque/migrate/complete",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: z.object({
+						token: z.string(),
+						registrationRecord: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { token, registrationRecord } = ctx.body;
+					const { user } = ctx.context.session;
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					const credentialAccount = await assertCanMigrate(ctx, token, {
+						consume: true,
+					});
+
+					const accountId = ctx.context.generateId({ model: "account" });
+					if (!accountId) {
+						throw new Error("Failed to generate account ID");
+					}
+
+					const now = new Date();
+					await ctx.context.internalAdapter.createAccount({
+						accountId,
+						providerId: "opaque",
+						userId: user.id,
+						registrationRecord,
+						serverKeyId: getCurrentServerKey().id,
+						keyStretching: currentKeyStretching,
+						migratedFrom: "credential",
+						createdAt: now,
+						updatedAt: now,
+					});
+
+					if (options?.credentialMigration?.deleteLegacyPassword) {
+						await ctx.context.internalAdapter.deleteAccount(
+							credentialAccount.id,
+						);
+					}
+
+					ctx.context.logger.debug(
+						`[MIGRATE] User ${user.id} migrated from credential to OPAQUE`,
+					);
+
+					return ctx.json({ success: true });
+				},
+			),
+
+			getLinkChallenge: createAuthEndpoint(
+				"/opaque/link/challenge",
+				{
+					method: "POST",
+					use: [freshSessionMiddleware],
+					body: z.object({
+						email: z.string().optional(),
+						username: z.string().optional(),
+						registrationRequest: z.string().base64url(),
+					}),
+				},
+				async (ctx) => {
+					const { registrationRequest } = ctx.body;
+					const { user } = ctx.context.session;
+
+					validateBase64Length(
+						registrationRequest,
+						REGISTRATION_REQUEST_LENGTH,
+						"registration request",
+					);
+
+					await assertCanLink(ctx, user);
+					const { userIdentifier } = await resolveLinkIdentifier(
+						ctx,
+						user,
+						ctx.body,
+					);
+
+					const { registrationResponse } = server.createRegistrationResponse({
+						userIdentifier,
+						registrationRequest,
+						serverSetup: getCurrentServerKey().key,
+					});
+
+					return { challenge: registrationResponse, keyStretching };
+				},
+			),
+
+			completeLink: createAuthEndpoint(
+				"/opaque/link/complete",
+				{
+					method: "POST",
+					use: [freshSessionMiddleware],
+					body: z.object({
+						email: z.string().optional(),
+						username: z.string().optional(),
+						registrationRecord: z.string().base64url(),
+						callbackURL: z.string().optional(),
+					}),
+				},
+				async (ctx) => {
+					const { registrationRecord, callbackURL } = ctx.body;
+					const { user } = ctx.context.session;
+
+					validateBase64LengthRange(
+						registrationRecord,
+						REGISTRATION_RECORD_MIN_LENGTH,
+						REGISTRATION_RECORD_MAX_LENGTH,
+						"registration record",
+					);
+
+					await assertCanLink(ctx, user);
+					const { userFields } = await resolveLinkIdentifier(
+						ctx,
+						user,
+						ctx.body,
+					);
+
+					const accountId = ctx.context.generateId({ model: "account" });
+					if (!accountId) {
+						throw new Error("Failed to generate account ID");
+					}
+
+					const now = new Date();
+					await ctx.context.internalAdapter.createAccount({
+						accountId,
+						providerId: "opaque",
+						userId: user.id,
+						registrationRecord,
+						serverKeyId: getCurrentServerKey().id,
+						keyStretching: currentKeyStretching,
+						createdAt: now,
+						updatedAt: now,
+					});
+
+					if (userFields) {
+						const updatedUser = await ctx.context.internalAdapter.updateUser(
+							user.id,
+							{ ...userFields, updatedAt: now },
+						);
+						if (ctx.context.options.session?.cookieCache?.enabled) {
+							await setSessionCookie(ctx, {
+								session: ctx.context.session.session,
+								user: updatedUser ?? user,
+							});
+						}
+						if (
+							identifier.field === "email" &&
+							(ctx.context.options.emailVerification?.sendOnSignUp ||
+								ctx.context.options.emailAndPassword?.requireEmailVerification)
+						) {
+							await sendOpaqueVerificationEmail(
+								ctx,
+								updatedUser ?? user,
+								callbackURL,
+							);
+						}
+					}
+
+					return ctx.json({ success: true });
+				},
+			),
+
+			getMigrationStatus: createAuthEndpoint(
+				"/opaque/migration-status",
+				{
+					method: "GET",
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (ctx) => {
+					const [legacyAccounts, migratedAccounts] = await Promise.all([
+						ctx.context.adapter.count({
+							model: "account",
+							where: [{ field: "providerId", value: "credential" }],
+						}),
+						ctx.context.adapter.count({
+							model: "account",
+							where: [
+								{ field: "providerId", value: "opaque" },
+								{ field: "migratedFrom", value: "credential" },
+							],
+						}),
+					]);
+
+					// Migrated credential accounts are gone when legacy passwords are deleted
+					const remaining = options?.credentialMigration?.deleteLegacyPassword
+						? legacyAccounts
+						: Math.max(legacyAccounts - migratedAccounts, 0);
+
+					return ctx.json({
+						legacyAccounts,
+						migratedAccounts,
+						remaining,
+					});
+				},
+			),
+
+			getPasswordPolicy: createAuthEndpoint(
+				"/opaque/password-policy",
+				{
+					method: "GET",
+				},
+				async (ctx) => {
+					return ctx.json(
+						resolvePasswordPolicy(
+							options?.passwordPolicy,
+							ctx.context.password.config,
+						),
+					);
+				},
+			),
+
+			getOpaqueServerPublicKeys: createAuthEndpoint(
+				"/opaque/server-public-keys",
+				{
+					method: "GET",
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (ctx) => {
+					const publicKeys = await getOpaqueServerPublicKeys(serverKeys);
+					return ctx.json({
+						keys: publicKeys.map((publicKey, index) => ({
+							...publicKey,
+							current: index === 0,
+						})),
+					});
+				},
+			),
+
+			getOpaqueKeyUsage: createAuthEndpoint(
+				"/opaque/key-usage",
+				{
+					method: "GET",
+					metadata: {
+						SERVER_ONLY: true,
+					},
+				},
+				async (ctx) => {
+					const opaqueAccountsWhere = {
+						field: "providerId",
+						value: "opaque",
+					};
+					const total = await ctx.context.adapter.count({
+						model: "account",
+						where: [opaqueAccountsWhere],
+					});
+
+					const keys = await Promise.all(
+						serverKeys.map(async (serverKey, index) => ({
+							id: serverKey.id,
+							current: index === 0,
+							accounts: await ctx.context.adapter.count({
+								model: "account",
+								where: [
+									opaqueAccountsWhere,
+									{ field: "serverKeyId", value: serverKey.id },
+								],
+							}),
+						})),
+					);
+
+					// Accounts without a key ID belong to the default key. Without a default
+					// key, they are counted as unassigned along with accounts on removed keys.
+					let unassigned =
+						total - keys.reduce((sum, key) => sum + key.accounts, 0);
+					const defaultKey = keys.find((key) => key.id === DEFAULT_SERVER_KEY_ID);
+					if (defaultKey) {
+						defaultKey.accounts += unassigned;
+						unassigned = 0;
+					}
+
+					return ctx.json({
+						total,
+						keys,
+						unassigned,
+					});
+				},
+			),
+
+			getOpaqueAuditLog: createAuthEndpoint(
+				"/opaque/audit-log",
+				{
+					method: "GET",
+					use: [sessionMiddleware],
+					query: z.object({
+						event: z.string().optional(),
+						identifier: z.string().optional(),
+						userId: z.string().optional(),
+						limit: z.coerce.number().int().min(1).max(1000).optional(),
+						offset: z.coerce.number().int().min(0).optional(),
+					}),
+				},
+				async (ctx) => {
+					if (!options?.auditLog) {
+						throw opaqueError("BAD_REQUEST", "AUDIT_LOG_DISABLED");
+					}
+					const isAdmin = options.auditLog.isAdmin ?? hasAdminRole;
+					if (!(await isAdmin(ctx.context.session))) {
+						throw opaqueError("FORBIDDEN", "AUDIT_LOG_FORBIDDEN");
+					}
+					const { event, identifier: eventIdentifier, userId, limit, offset } =
+						ctx.query;
+					const where = [
+						...(event ? [{ field: "event", value: event }] : []),
+						...(eventIdentifier
+							? [
+									{
+										field: "identifier",
+										value: identifier.normalize(eventIdentifier) ?? eventIdentifier,
+									},
+								]
+							: []),
+						...(userId ? [{ field: "userId", value: userId }] : []),
+					];
+					const events = await ctx.context.adapter.findMany<OpaqueAuditLogEntry>({
+						model: AUDIT_LOG_MODEL,
+						where,
+						limit: limit ?? 100,
+						offset,
+						sortBy: { field: "createdAt", direction: "desc" },
+					});
+					return ctx.json({ events });
+				},
+			),
+
+			getVault: createAuthEndpoint(
+				"/opaque/vault",
+				{
+					method: "GET",
+					use: [sessionMiddleware],
+				},
+				async (ctx) => {
+					assertVaultEnabled();
+
+					const vault = await findVault(
+						ctx.context.adapter,
+						ctx.context.session.user.id,
+					);
+					return ctx.json({
+						ciphertext: vault?.ciphertext ?? null,
+						version: vault?.version ?? 0,
+					});
+				},
+			),
+
+			putVault: createAuthEndpoint(
+				"/opaque/vault/put",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: vaultBody,
+				},
+				async (ctx) => {
+					assertVaultEnabled();
+
+					const { ciphertext, version } = ctx.body;
+					const newVersion = await writeVault(
+						ctx.context.adapter,
+						ctx.context.session.user.id,
+						ciphertext,
+						version,
+					);
+					return ctx.json({ version: newVersion });
+				},
+			),
+
+			// For re-wrapping an existing vault outside of a password change,
+			// e.g. with an export key the client kept from before a rekey
+			rotateVault: createAuthEndpoint(
+				"/opaque/vault/rotate",
+				{
+					method: "POST",
+					use: [sessionMiddleware],
+					body: vaultBody,
+				},
+				async (ctx) => {
+					assertVaultEnabled();
+
+					const { ciphertext, version } = ctx.body;
+					if (version === 0) {
+						throw opaqueError("BAD_REQUEST", "NO_VAULT");
+					}
+					const newVersion = await writeVault(
+						ctx.context.adapter,
+						ctx.context.session.user.id,
+						ciphertext,
+						version,
+					);
+					return ctx.json({ version: newVersion });
+				},
+			),
 		},
+		$ERROR_CODES: OPAQUE_ERROR_CODES,
+		options,
 	} satisfies BetterAuthPlugin;
 };
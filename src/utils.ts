@@ -1,26 +1,402 @@
-import { client, server } from "@serenity-kit/opaque";
-import { type Account, APIError, type User } from "better-auth";
+import type { GenericEndpointContext } from "@better-auth/core";
+import type { SecondaryStorage } from "@better-auth/core/db";
+import type { DBTransactionAdapter } from "@better-auth/core/db/adapter";
+import { ready, server } from "@serenity-kit/opaque";
+import {
+	type Account,
+	APIError,
+	type Session,
+	type User,
+	type Verification,
+} from "better-auth";
+import { createEmailVerificationToken } from "better-auth/api";
 import {
 	generateRandomString,
 	symmetricDecrypt,
 	symmetricEncrypt,
 } from "better-auth/crypto";
+import * as z from "zod";
+import {
+	CHANNEL_BINDING_HEADERS,
+	verifyRequestSignature,
+} from "./channel-binding";
+import { fromBase64Url, toBase64Url } from "./base64url";
+import { OPAQUE_ERROR_CODES, type OpaqueErrorCode } from "./error-codes";
+import type { OpaquePasswordPolicy } from "./password-policy";
+
+export interface OpaqueServerKey {
+	id: string;
+	key: string;
+}
 
 export interface OpaqueOptions {
-	OPAQUE_SERVER_KEY: string;
+	// Either a single server setup, or an ordered keyring of setups.
+	// The first key in the keyring is used for all new registrations.
+	OPAQUE_SERVER_KEY: string | OpaqueServerKey[];
 	// Purposely make this long and verbose to discourage the use of it.
 	// People who use it should understand the risks.
 	insecureCreateSessionOnRegister?: boolean;
+	// How long a login challenge can be completed for, in seconds.
+	loginStateExpiresIn?: number;
+	// Where the server's half of the login handshake is kept between the
+	// challenge and completion steps. "client" sends it to the client encrypted,
+	// "server" keeps it in secondary storage or the verification table.
+	loginStateStorage?: LoginStateStorage;
+	// Throttle failed logins per identifier. Disabled unless provided.
+	bruteForceProtection?: OpaqueBruteForceOptions;
+	// Pad sign-up, sign-in and password reset responses to a minimum duration,
+	// so new and existing users take as long. Disabled unless provided.
+	responseTime?: OpaqueResponseTimeOptions;
+	// Let users with an emailAndPassword credential account move to OPAQUE
+	// the next time they sign in. Disabled unless provided.
+	credentialMigration?: OpaqueCredentialMigrationOptions;
+	// What users sign in with. Defaults to "email".
+	identifier?: "email" | "username" | OpaqueIdentifier;
+	// Bind sessions created by OPAQUE logins to the login's session key, so
+	// they only accept requests signed by opaqueClient(). Disabled unless
+	// provided.
+	channelBinding?: OpaqueChannelBindingOptions;
+	// Record sign-ups and sign-ins in the opaqueAuditLog model. Disabled
+	// unless provided.
+	auditLog?: OpaqueAuditLogOptions;
+	// Store a blob per user that the client encrypts with the export key.
+	// Adds the opaqueVault model. Disabled unless set.
+	vault?: boolean;
+	// The Argon2id profile clients stretch passwords with. Defaults to
+	// "memory-constrained". Accounts on another profile are moved to this one
+	// through a re-registration on their next sign-in.
+	keyStretching?: OpaqueKeyStretching;
+	// Profiles accounts may still be registered with, after keyStretching was
+	// changed. Accounts from before profiles were stored are on
+	// "memory-constrained". Unknown identifiers are answered with one of these
+	// or the current profile, so they look like accounts yet to be moved.
+	previousKeyStretching?: OpaqueKeyStretching[];
+	// The rules new passwords must follow. The server never sees passwords, so
+	// it publishes the policy and opaqueClient() enforces it.
+	passwordPolicy?: OpaquePasswordPolicy;
+	// Runs before every sign-up is completed, whether or not the identifier is
+	// already registered. Throw an APIError to reject the sign-up.
+	beforeRegister?: (
+		data: {
+			identifier: string;
+			email: string;
+			name: string;
+			// The validated user.additionalFields from the request
+			additionalFields: Record<string, unknown>;
+		},
+		ctx: GenericEndpointContext,
+	) => Promise<void> | void;
+	// Runs after every completed sign-up. `user` is only set when a user was
+	// created, so anything slow should take as long without one.
+	afterRegister?: (
+		data: { identifier: string; user: User | null },
+		ctx: GenericEndpointContext,
+	) => Promise<void> | void;
+	// Runs once the password has been proven at sign-in, before the session is
+	// created. Throw an APIError to refuse the sign-in.
+	onLoginSuccess?: (
+		data: { identifier: string; user: User },
+		ctx: GenericEndpointContext,
+	) => Promise<void> | void;
+	// Runs for every rejected sign-in completion, with the reason it was
+	// rejected. Unknown users fail the same way as wrong passwords, so both
+	// are "invalid_credentials".
+	onLoginFailure?: (
+		data: { identifier: string; reason: OpaqueLoginFailureReason },
+		ctx: GenericEndpointContext,
+	) => Promise<void> | void;
+}
+
+export type OpaqueLoginFailureReason =
+	| "invalid_credentials"
+	// The login state was tampered with, or has been used before
+	| "invalid_state"
+	| "expired_state"
+	// The login state was issued for another identifier
+	| "identifier_mismatch"
+	| "too_many_attempts";
+
+export type OpaqueKeyStretching =
+	| "memory-constrained"
+	| "rfc-draft-recommended"
+	| {
+			"argon2id-custom": {
+				iterations: number;
+				memory: number;
+				parallelism: number;
+			};
+	  };
+
+export interface OpaqueIdentifier {
+	// The request body field the identifier is sent in.
+	field: "email" | "username";
+	// Returns the canonical form of an identifier, or null if it isn't valid.
+	// The result is bound into every registration record, so it must be stable.
+	normalize: (identifier: string) => string | null;
+	findUser: (
+		ctx: GenericEndpointContext,
+		identifier: string,
+	) => Promise<User | null>;
+	// Reads the normalized identifier of an existing user.
+	getUserIdentifier: (
+		user: User & Record<string, unknown>,
+	) => string | null | undefined;
+	// Extra fields to set on a new user, from the raw and normalized identifier.
+	getUserFields?: (
+		identifier: string,
+		normalized: string,
+	) => Record<string, unknown>;
+}
+
+export interface OpaqueCredentialMigrationOptions {
+	// Delete the credential account, and with it the password hash,
+	// once the user has an OPAQUE account.
+	deleteLegacyPassword?: boolean;
+}
+
+export interface OpaqueBruteForceOptions {
+	// Failed logins allowed before any delay is enforced.
+	freeAttempts?: number;
+	// Delay in seconds after the first failure past freeAttempts,
+	// doubled for every further failure.
+	backoff?: number;
+	// Failed logins before the identifier is locked out.
+	maxAttempts?: number;
+	// How long a lockout lasts in seconds. The failure count also
+	// resets after this long without a failed login.
+	lockoutDuration?: number;
+}
+
+export interface OpaqueResponseTimeOptions {
+	// The least time in milliseconds a response takes. It has to be longer
+	// than the slowest path, or the difference still shows.
+	minimum: number;
+	// Up to this many milliseconds are added at random to every response.
+	jitter?: number;
+}
+
+export interface OpaqueChannelBindingOptions {
+	// How far in seconds a request's timestamp may be from the server's clock.
+	// Defaults to 60.
+	maxSkew?: number;
+}
+
+export interface OpaqueAuditLogOptions {
+	// How long events are kept in seconds. Defaults to 90 days.
+	retention?: number;
+	// Decides who may read the log. Defaults to users with the "admin" role
+	// of Better Auth's admin plugin.
+	isAdmin?: (session: {
+		user: User & Record<string, unknown>;
+		session: Session & Record<string, unknown>;
+	}) => boolean | Promise<boolean>;
+}
+
+export type OpaqueAuditEvent =
+	| "registration_attempted"
+	| "login_succeeded"
+	| "login_failed"
+	| "login_state_invalid"
+	| "login_state_expired";
+
+export type LoginStateStorage = "client" | "server";
+
+// The user is looked up again once the login completes
+type LoginStateUser = {
+	id: string;
+	// The record is bound to the email as typed, from before emails were
+	// normalized
+	legacyIdentifier?: boolean;
+};
+
+type StorageContext = {
+	context: {
+		secret: string;
+		secondaryStorage: SecondaryStorage | undefined;
+		internalAdapter: {
+			findVerificationValue: (
+				identifier: string,
+			) => Promise<Verification | null>;
+			createVerificationValue: (data: {
+				identifier: string;
+				value: string;
+				expiresAt: Date;
+			}) => Promise<Verification>;
+			deleteVerificationValue: (id: string) => Promise<void>;
+		};
+		adapter: {
+			findMany: <T>(data: {
+				model: string;
+				where: { field: string; value: string }[];
+			}) => Promise<T[]>;
+			count: (data: {
+				model: string;
+				where: { field: string; value: string }[];
+			}) => Promise<number>;
+			deleteMany: (data: {
+				model: string;
+				where: { field: string; value: string }[];
+			}) => Promise<number>;
+		};
+	};
+};
+
+// Emails are stored and compared in this form, and only validated after it
+function normalizeEmailAddress(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+export const emailIdentifier: OpaqueIdentifier = {
+	field: "email",
+	normalize: (email) => {
+		const normalized = normalizeEmailAddress(email);
+		return z.string().email().safeParse(normalized).success ? normalized : null;
+	},
+	findUser: async (ctx, email) => {
+		const result = await ctx.context.internalAdapter.findUserByEmail(email);
+		return result?.user ?? null;
+	},
+	getUserIdentifier: (user) => normalizeEmailAddress(user.email),
+};
+
+// Compatible with the defaults of Better Auth's username plugin
+export const usernameIdentifier: OpaqueIdentifier = {
+	field: "username",
+	normalize: (username) => {
+		const normalized = username.trim().toLowerCase();
+		return /^[a-z0-9_.]{3,30}$/.test(normalized) ? normalized : null;
+	},
+	findUser: async (ctx, username) =>
+		await ctx.context.adapter.findOne<User>({
+			model: "user",
+			where: [{ field: "username", value: username }],
+		}),
+	getUserIdentifier: (user) =>
+		typeof user.username === "string" ? user.username : null,
+	getUserFields: (username, normalized) => ({
+		username: normalized,
+		displayUsername: username.trim(),
+	}),
+};
+
+export function resolveIdentifier(
+	identifier: OpaqueOptions["identifier"],
+): OpaqueIdentifier {
+	if (!identifier || identifier === "email") {
+		return emailIdentifier;
+	}
+	if (identifier === "username") {
+		return usernameIdentifier;
+	}
+	return identifier;
 }
 
 export const REGISTRATION_REQUEST_LENGTH = 32;
 export const REGISTRATION_RECORD_MIN_LENGTH = 170;
 export const REGISTRATION_RECORD_MAX_LENGTH = 200;
 export const LOGIN_REQUEST_LENGTH = 96;
+// Client public key, masking key and envelope
+const FAKE_REGISTRATION_RECORD_LENGTH = 192;
+export const RESET_PASSWORD_IDENTIFIER_PREFIX = "opaque-reset-password:";
+export const DELETE_ACCOUNT_IDENTIFIER_PREFIX = "opaque-delete-account:";
+export const CHANGE_EMAIL_IDENTIFIER_PREFIX = "opaque-change-email:";
+// Names the user of a pending email change, so their changes can be found
+export const CHANGE_EMAIL_USER_IDENTIFIER_PREFIX = "opaque-change-email-user:";
+// Accounts registered before key rotation was configured have no key ID
+// and belong to this key.
+export const DEFAULT_SERVER_KEY_ID = "default";
+export const REKEY_TOKEN_EXPIRY = 15 * 60 * 1000;
+export const REKEY_TOKEN_NONCE_PREFIX = "opaque-rekey-token:";
+// Migration must follow straight after the legacy sign-in that proved the password
+export const MIGRATION_TOKEN_EXPIRY = 5 * 60 * 1000;
+export const MIGRATION_TOKEN_NONCE_PREFIX = "opaque-migration-token:";
+export const DEFAULT_LOGIN_STATE_EXPIRES_IN = 15 * 60;
+export const LOGIN_STATE_NONCE_PREFIX = "opaque-login-state:";
+export const REQUEST_NONCE_PREFIX = "opaque-request-nonce:";
+export const DEFAULT_CHANNEL_BINDING_MAX_SKEW = 60;
+// Requests that don't need the session, so a client that lost its binding
+// key can still sign in again or sign out
+export const CHANNEL_BINDING_EXEMPT_PATHS = ["/sign-in/", "/sign-up/", "/sign-out"];
+export const LOGIN_STATE_HANDLE_PREFIX = "opaque-login-state-handle:";
+export const LOGIN_ATTEMPTS_PREFIX = "opaque-login-attempts:";
+// How long a password verification counts as recent, in seconds
+export const DEFAULT_PASSWORD_VERIFICATION_MAX_AGE = 5 * 60;
+export const VAULT_MODEL = "opaqueVault";
+export const AUDIT_LOG_MODEL = "opaqueAuditLog";
+export const DEFAULT_AUDIT_LOG_RETENTION = 90 * 24 * 60 * 60;
+// Old events are deleted at most this often, in milliseconds
+export const AUDIT_LOG_PRUNE_INTERVAL = 60 * 60 * 1000;
+export const VAULT_MAX_CIPHERTEXT_LENGTH = 64 * 1024;
+// The library's default, which every account registered before the profile
+// was stored used
+export const DEFAULT_KEY_STRETCHING: OpaqueKeyStretching = "memory-constrained";
 
-export function base64UrlDecode(str: string): string {
-	const padded = str + "=".repeat((4 - (str.length % 4)) % 4);
-	return atob(padded.replace(/-/g, "+").replace(/_/g, "/"));
+// Accounts store the profile as a string so that it can be compared
+export function serializeKeyStretching(
+	keyStretching: OpaqueKeyStretching,
+): string {
+	if (typeof keyStretching === "string") {
+		return keyStretching;
+	}
+	const { iterations, memory, parallelism } = keyStretching["argon2id-custom"];
+	return JSON.stringify({
+		"argon2id-custom": { iterations, memory, parallelism },
+	});
+}
+
+export function parseKeyStretching(
+	stored: string | null | undefined,
+): OpaqueKeyStretching {
+	if (!stored) {
+		return DEFAULT_KEY_STRETCHING;
+	}
+	return stored.startsWith("{")
+		? JSON.parse(stored)
+		: (stored as OpaqueKeyStretching);
+}
+
+export function normalizeServerKeys(
+	serverKey: string | OpaqueServerKey[],
+): OpaqueServerKey[] {
+	if (typeof serverKey === "string") {
+		return [{ id: DEFAULT_SERVER_KEY_ID, key: serverKey }];
+	}
+	if (serverKey.length === 0) {
+		throw new Error("OPAQUE_SERVER_KEY keyring must contain at least one key");
+	}
+	const ids = new Set(serverKey.map((serverKey) => serverKey.id));
+	if (ids.size !== serverKey.length) {
+		throw new Error("OPAQUE_SERVER_KEY keyring contains duplicate key IDs");
+	}
+	return serverKey;
+}
+
+/**
+ * The static public key of every key in OPAQUE_SERVER_KEY, in keyring order.
+ * The first one is the current key. Embed these in clients that pin the
+ * server with `opaqueClient({ expectedServerPublicKey })`.
+ */
+export async function getOpaqueServerPublicKeys(
+	serverKey: string | OpaqueServerKey[],
+): Promise<{ id: string; publicKey: string }[]> {
+	await ready;
+	return normalizeServerKeys(serverKey).map(({ id, key }) => ({
+		id,
+		publicKey: server.getPublicKey(key),
+	}));
+}
+
+/**
+ * An APIError carrying one of the stable OPAQUE_ERROR_CODES as its `code`.
+ * The message defaults to the one in the map.
+ */
+export function opaqueError(
+	status: ConstructorParameters<typeof APIError>[0],
+	code: OpaqueErrorCode,
+	message: string = OPAQUE_ERROR_CODES[code],
+	headers?: Record<string, string>,
+) {
+	return new APIError(status, { message, code }, headers);
 }
 
 export function validateBase64Length(
@@ -28,38 +404,97 @@ export function validateBase64Length(
 	expectedLength: number,
 	fieldName: string,
 ): void {
-	const bytes = base64UrlDecode(base64);
+	const bytes = fromBase64Url(base64);
 	if (bytes.length !== expectedLength) {
-		throw new APIError("BAD_REQUEST", {
-			message: `Invalid ${fieldName}`,
-		});
+		throw opaqueError("BAD_REQUEST", "INVALID_REQUEST", `Invalid ${fieldName}`);
 	}
 }
 
-export async function createDummyRegistrationRecord(): Promise<string> {
-	const tempServerSetup = server.createSetup(); // Use a temporary key
+async function hmacSha512(key: Uint8Array, data: string): Promise<Uint8Array> {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		key,
+		{ name: "HMAC", hash: "SHA-512" },
+		false,
+		["sign"],
+	);
+	return new Uint8Array(
+		await crypto.subtle.sign("HMAC", cryptoKey, new TextEncoder().encode(data)),
+	);
+}
+
+// Order of the ristretto255 group
+const RISTRETTO255_ORDER =
+	2n ** 252n + 27742317777372353535851937790883648493n;
 
-	const userId = generateRandomString(12);
-	const password = generateRandomString(24);
+// Reduces 64 uniform bytes to a scalar, like curve25519-dalek's from_bytes_mod_order_wide
+function reduceScalar(wide: Uint8Array): Uint8Array {
+	let value = 0n;
+	for (let i = wide.length - 1; i >= 0; i--) {
+		value = (value << 8n) | BigInt(wide[i] as number);
+	}
+	value %= RISTRETTO255_ORDER;
+	const scalar = new Uint8Array(32);
+	for (let i = 0; i < scalar.length; i++) {
+		scalar[i] = Number(value & 0xffn);
+		value >>= 8n;
+	}
+	return scalar;
+}
 
-	const { registrationRequest, clientRegistrationState } =
-		client.startRegistration({
-			password,
-		});
+/**
+ * Builds the fake registration record used for unknown users, as described in
+ * RFC 9807 section 6.3.2.2: a fake client public key, a fake masking key and
+ * an all-zero envelope. Both keys are derived from the server setup and the
+ * identifier, so repeated logins for the same unknown user are answered from
+ * the same record, just like a real account.
+ */
+export async function createFakeRegistrationRecord(
+	serverSetup: string,
+	identifier: string,
+): Promise<string> {
+	// @serenity-kit/opaque 0.9 serializes the setup as the OPRF seed (64 bytes),
+	// the server private key (32 bytes) and its own fake private key (32 bytes)
+	const setup = fromBase64Url(serverSetup);
+	const [privateKeySeed, maskingKey] = await Promise.all([
+		hmacSha512(setup, `opaque-fake-client-key:${identifier}`),
+		hmacSha512(setup, `opaque-fake-masking-key:${identifier}`),
+	]);
 
-	const { registrationResponse } = server.createRegistrationResponse({
-		registrationRequest,
-		serverSetup: tempServerSetup,
-		userIdentifier: userId,
-	});
+	// Swapping the derived private key into the setup lets the library compute
+	// the matching public key, there is no other scalar multiplication exposed
+	const fakeSetup = setup.slice();
+	fakeSetup.set(reduceScalar(privateKeySeed), 64);
+	const publicKey = fromBase64Url(
+		server.getPublicKey(toBase64Url(fakeSetup)),
+	);
 
-	const { registrationRecord } = client.finishRegistration({
-		clientRegistrationState,
-		registrationResponse,
-		password,
-	});
+	const record = new Uint8Array(FAKE_REGISTRATION_RECORD_LENGTH);
+	record.set(publicKey, 0);
+	record.set(maskingKey, publicKey.length);
+	return toBase64Url(record);
+}
 
-	return registrationRecord;
+/**
+ * Picks the key stretching profile an unknown identifier is answered with.
+ * Like the fake record, the choice is keyed by the server setup and stable
+ * per identifier, so asking again gives the same answer.
+ */
+export async function pickFakeKeyStretching(
+	serverSetup: string,
+	identifier: string,
+	profiles: OpaqueKeyStretching[],
+): Promise<OpaqueKeyStretching> {
+	if (profiles.length < 2) {
+		return profiles[0] ?? DEFAULT_KEY_STRETCHING;
+	}
+	const digest = await hmacSha512(
+		fromBase64Url(serverSetup),
+		`opaque-fake-key-stretching:${identifier}`,
+	);
+	// 32 bits leave no bias worth mentioning for a handful of profiles
+	const value = new DataView(digest.buffer).getUint32(0);
+	return profiles[value % profiles.length] as OpaqueKeyStretching;
 }
 
 export function validateBase64LengthRange(
@@ -68,11 +503,9 @@ export function validateBase64LengthRange(
 	max: number,
 	fieldName: string,
 ): void {
-	const bytes = base64UrlDecode(base64);
+	const bytes = fromBase64Url(base64);
 	if (bytes.length < min || bytes.length > max) {
-		throw new APIError("BAD_REQUEST", {
-			message: `Invalid ${fieldName}`,
-		});
+		throw opaqueError("BAD_REQUEST", "INVALID_REQUEST", `Invalid ${fieldName}`);
 	}
 }
 export function padToLength(input: string, targetLength: number): string {
@@ -94,16 +527,18 @@ export function padToLength(input: string, targetLength: number): string {
 export async function encryptServerLoginState(
 	serverLoginState: string,
 	secret: string,
-	user: {
-		id: string;
-		email: string;
-		name: string;
-		[key: string]: unknown;
-	} | null,
+	user: LoginStateUser | null,
+	identifier?: string,
 ): Promise<string> {
 	return await symmetricEncrypt({
 		data: padToLength(
-			JSON.stringify({ serverLoginState, user, issuedAt: Date.now() }),
+			JSON.stringify({
+				serverLoginState,
+				user,
+				identifier,
+				nonce: generateRandomString(32),
+				issuedAt: Date.now(),
+			}),
 			1024,
 		),
 		key: secret,
@@ -113,24 +548,417 @@ export async function encryptServerLoginState(
 export async function decryptServerLoginState(
 	encryptedState: string,
 	secret: string,
+	expiresIn: number = DEFAULT_LOGIN_STATE_EXPIRES_IN,
 ): Promise<{
 	serverLoginState: string;
-	user: User;
+	user: LoginStateUser | null;
+	identifier?: string;
+	nonce: string;
+	issuedAt: number;
 }> {
 	const decrypted = await symmetricDecrypt({
 		key: secret,
 		data: encryptedState,
 	});
 	const data = JSON.parse(decrypted);
-	if (data.issuedAt + 15 * 60 * 1000 < Date.now()) {
-		// 15 minutes expiry
-		throw new APIError("BAD_REQUEST", {
-			message: "Login state has expired",
-		});
+	if (typeof data.nonce !== "string") {
+		throw opaqueError("BAD_REQUEST", "INVALID_STATE");
+	}
+	if (data.issuedAt + expiresIn * 1000 < Date.now()) {
+		throw opaqueError("BAD_REQUEST", "STATE_EXPIRED");
 	}
 	return data;
 }
 
+/**
+ * Marks a login state nonce as used. Returns false if it was already used,
+ * so each login challenge can only be completed once.
+ */
+export async function consumeLoginStateNonce(
+	ctx: StorageContext,
+	nonce: string,
+	expiresAt: Date,
+): Promise<boolean> {
+	return await consumeOnce(ctx, `${LOGIN_STATE_NONCE_PREFIX}${nonce}`, expiresAt);
+}
+
+/**
+ * Records an identifier as used, returning false if it already was. In the
+ * verification table every attempt is written first, and only an attempt that
+ * finds no other is let through. Two concurrent attempts may then both fail,
+ * but can never both succeed. `secondaryStorage` has no atomic operation to
+ * build on, so there this only holds against replays that come one after the
+ * other.
+ */
+async function consumeOnce(
+	ctx: StorageContext,
+	identifier: string,
+	expiresAt: Date,
+): Promise<boolean> {
+	const secondaryStorage = ctx.context.secondaryStorage;
+
+	if (secondaryStorage) {
+		if (await secondaryStorage.get(identifier)) {
+			return false;
+		}
+		const ttl = Math.max(
+			Math.ceil((expiresAt.getTime() - Date.now()) / 1000),
+			1,
+		);
+		await secondaryStorage.set(identifier, "consumed", ttl);
+		return true;
+	}
+
+	await ctx.context.internalAdapter.createVerificationValue({
+		identifier,
+		value: "consumed",
+		expiresAt,
+	});
+	const attempts = await ctx.context.adapter.count({
+		model: "verification",
+		where: [{ field: "identifier", value: identifier }],
+	});
+	return attempts === 1;
+}
+
+/**
+ * Hands out the server's login state for a challenge. In "client" mode this is
+ * the encrypted state itself, in "server" mode it is a random handle to it.
+ */
+export async function issueLoginState(
+	ctx: StorageContext,
+	serverLoginState: string,
+	user: LoginStateUser | null,
+	identifier: string,
+	storage: LoginStateStorage,
+	expiresIn: number,
+): Promise<string> {
+	if (storage === "client") {
+		return await encryptServerLoginState(
+			serverLoginState,
+			ctx.context.secret,
+			user,
+			identifier,
+		);
+	}
+
+	const handle = generateRandomString(32);
+	const key = `${LOGIN_STATE_HANDLE_PREFIX}${handle}`;
+	const value = JSON.stringify({ serverLoginState, user, identifier });
+	const secondaryStorage = ctx.context.secondaryStorage;
+
+	if (secondaryStorage) {
+		await secondaryStorage.set(key, value, expiresIn);
+	} else {
+		await ctx.context.internalAdapter.createVerificationValue({
+			identifier: key,
+			value,
+			expiresAt: new Date(Date.now() + expiresIn * 1000),
+		});
+	}
+	return handle;
+}
+
+/**
+ * Recovers the server's login state from what the client sent back. The state
+ * is consumed, so a second attempt with the same state always fails. See
+ * consumeOnce for how far that holds with `secondaryStorage`.
+ */
+export async function redeemLoginState(
+	ctx: StorageContext,
+	state: string,
+	storage: LoginStateStorage,
+	expiresIn: number,
+): Promise<{
+	serverLoginState: string;
+	user: LoginStateUser | null;
+	identifier?: string;
+}> {
+	if (storage === "client") {
+		try {
+			const { serverLoginState, user, identifier, nonce, issuedAt } =
+				await decryptServerLoginState(state, ctx.context.secret, expiresIn);
+			const consumed = await consumeLoginStateNonce(
+				ctx,
+				nonce,
+				new Date(issuedAt + expiresIn * 1000),
+			);
+			if (consumed) {
+				return { serverLoginState, user, identifier };
+			}
+		} catch (error) {
+			// Anything but expiry is reported as an invalid state
+			if (error instanceof APIError && error.body?.code === "STATE_EXPIRED") {
+				throw error;
+			}
+		}
+		throw opaqueError("BAD_REQUEST", "INVALID_STATE");
+	}
+
+	const key = `${LOGIN_STATE_HANDLE_PREFIX}${state}`;
+	const secondaryStorage = ctx.context.secondaryStorage;
+	let value: unknown = null;
+
+	if (secondaryStorage) {
+		value = await secondaryStorage.get(key);
+		if (value) {
+			await secondaryStorage.delete(key);
+		}
+	} else {
+		const verification =
+			await ctx.context.internalAdapter.findVerificationValue(key);
+		// Only the request that actually deletes the state may use it
+		const deleted = verification
+			? await ctx.context.adapter.deleteMany({
+					model: "verification",
+					where: [{ field: "id", value: verification.id }],
+				})
+			: 0;
+		if (verification && deleted > 0) {
+			if (verification.expiresAt <= new Date()) {
+				throw opaqueError("BAD_REQUEST", "STATE_EXPIRED");
+			}
+			value = verification.value;
+		}
+	}
+
+	if (typeof value !== "string") {
+		throw opaqueError("BAD_REQUEST", "INVALID_STATE");
+	}
+	return JSON.parse(value);
+}
+
+/**
+ * Finishes the server side of a login. The library throws when the client's
+ * proof doesn't verify, which is turned into a missing session key here.
+ */
+export function finishServerLogin(
+	serverLoginState: string,
+	finishLoginRequest: string,
+): string | undefined {
+	try {
+		return server.finishLogin({ serverLoginState, finishLoginRequest })
+			.sessionKey;
+	} catch {
+		return undefined;
+	}
+}
+
+export type LoginAttempts = {
+	failures: number;
+	lastFailedAt: number;
+};
+
+export function resolveBruteForceOptions(
+	options: OpaqueBruteForceOptions,
+): Required<OpaqueBruteForceOptions> {
+	return {
+		freeAttempts: options.freeAttempts ?? 3,
+		backoff: options.backoff ?? 1,
+		maxAttempts: options.maxAttempts ?? 10,
+		lockoutDuration: options.lockoutDuration ?? 15 * 60,
+	};
+}
+
+/**
+ * Returns how many seconds must pass before the next login attempt is
+ * allowed, or 0 if it is allowed now.
+ */
+export function getLoginRetryAfter(
+	attempts: LoginAttempts | null,
+	options: Required<OpaqueBruteForceOptions>,
+	now: number = Date.now(),
+): number {
+	if (!attempts || attempts.failures < options.freeAttempts) {
+		return 0;
+	}
+	const delay =
+		attempts.failures >= options.maxAttempts
+			? options.lockoutDuration
+			: Math.min(
+					options.backoff * 2 ** (attempts.failures - options.freeAttempts),
+					options.lockoutDuration,
+				);
+	const retryAt = attempts.lastFailedAt + delay * 1000;
+	return Math.max(Math.ceil((retryAt - now) / 1000), 0);
+}
+
+function randomJitter(jitter: number): number {
+	if (jitter <= 0) {
+		return 0;
+	}
+	const [value] = crypto.getRandomValues(new Uint32Array(1));
+	return ((value as number) / 2 ** 32) * jitter;
+}
+
+/**
+ * Wraps an endpoint handler so that it never responds, successfully or with
+ * an error, before the configured minimum time plus jitter has passed.
+ */
+export function withResponseTime<C, R>(
+	options: OpaqueResponseTimeOptions | undefined,
+	handler: (ctx: C) => Promise<R>,
+): (ctx: C) => Promise<R> {
+	if (!options) {
+		return handler;
+	}
+	return async (ctx) => {
+		const respondAt =
+			performance.now() + options.minimum + randomJitter(options.jitter ?? 0);
+		try {
+			return await handler(ctx);
+		} finally {
+			const remaining = respondAt - performance.now();
+			if (remaining > 0) {
+				await new Promise((resolve) => setTimeout(resolve, remaining));
+			}
+		}
+	};
+}
+
+// Each stored value is one or more failures, so older single-row counts add up too
+function sumLoginAttempts(values: string[]): LoginAttempts | null {
+	if (values.length === 0) {
+		return null;
+	}
+	return values
+		.map((value) => JSON.parse(value) as LoginAttempts)
+		.reduce((total, attempts) => ({
+			failures: total.failures + attempts.failures,
+			lastFailedAt: Math.max(total.lastFailedAt, attempts.lastFailedAt),
+		}));
+}
+
+// The failures stored for an identifier, leaving out the row with `excludeId`
+async function findLoginAttemptValues(
+	ctx: StorageContext,
+	key: string,
+	excludeId?: string,
+): Promise<string[]> {
+	const secondaryStorage = ctx.context.secondaryStorage;
+	if (secondaryStorage) {
+		const value = await secondaryStorage.get(key);
+		return typeof value === "string" ? [value] : [];
+	}
+	const now = new Date();
+	const verifications = await ctx.context.adapter.findMany<Verification>({
+		model: "verification",
+		where: [{ field: "identifier", value: key }],
+	});
+	return verifications
+		.filter(
+			(verification) =>
+				verification.id !== excludeId && new Date(verification.expiresAt) > now,
+		)
+		.map((verification) => verification.value);
+}
+
+export async function findLoginAttempts(
+	ctx: StorageContext,
+	identifier: string,
+): Promise<LoginAttempts | null> {
+	return sumLoginAttempts(
+		await findLoginAttemptValues(
+			ctx,
+			`${LOGIN_ATTEMPTS_PREFIX}${identifier.toLowerCase()}`,
+		),
+	);
+}
+
+function assertRetryAllowed(
+	attempts: LoginAttempts | null,
+	options: Required<OpaqueBruteForceOptions>,
+): void {
+	const retryAfter = getLoginRetryAfter(attempts, options);
+	if (retryAfter > 0) {
+		throw opaqueError("TOO_MANY_REQUESTS", "TOO_MANY_ATTEMPTS", undefined, {
+			"Retry-After": retryAfter.toString(),
+		});
+	}
+}
+
+/**
+ * Rejects the login if the identifier has too many recent failures.
+ * Failures are tracked for unknown identifiers too, so the response is
+ * the same whether or not the user exists.
+ */
+export async function assertLoginAllowed(
+	ctx: StorageContext,
+	identifier: string,
+	options: Required<OpaqueBruteForceOptions>,
+): Promise<void> {
+	assertRetryAllowed(await findLoginAttempts(ctx, identifier), options);
+}
+
+/**
+ * Counts a login attempt as a failure before its proof is checked, unless the
+ * identifier has too many recent failures already. Call clearLoginFailures
+ * once the proof verifies. In the verification table every attempt is its own
+ * row, written before the others are counted, so concurrent attempts see each
+ * other and can't all get through. `secondaryStorage` has no atomic increment,
+ * so there concurrent attempts may only be counted once.
+ */
+export async function reserveLoginAttempt(
+	ctx: StorageContext,
+	identifier: string,
+	options: Required<OpaqueBruteForceOptions>,
+): Promise<void> {
+	const key = `${LOGIN_ATTEMPTS_PREFIX}${identifier.toLowerCase()}`;
+	const attempt = {
+		failures: 1,
+		lastFailedAt: Date.now(),
+	} satisfies LoginAttempts;
+
+	const secondaryStorage = ctx.context.secondaryStorage;
+	if (secondaryStorage) {
+		const previous = sumLoginAttempts(await findLoginAttemptValues(ctx, key));
+		assertRetryAllowed(previous, options);
+		await secondaryStorage.set(
+			key,
+			JSON.stringify({
+				failures: (previous?.failures ?? 0) + attempt.failures,
+				lastFailedAt: attempt.lastFailedAt,
+			} satisfies LoginAttempts),
+			options.lockoutDuration,
+		);
+		return;
+	}
+
+	// Each failure expires on its own, so the count drops to zero once there
+	// has been none for lockoutDuration
+	const reserved = await ctx.context.internalAdapter.createVerificationValue({
+		identifier: key,
+		value: JSON.stringify(attempt),
+		expiresAt: new Date(attempt.lastFailedAt + options.lockoutDuration * 1000),
+	});
+	try {
+		assertRetryAllowed(
+			sumLoginAttempts(await findLoginAttemptValues(ctx, key, reserved.id)),
+			options,
+		);
+	} catch (error) {
+		// Rejected attempts don't count, or retrying would extend a lockout
+		await ctx.context.internalAdapter.deleteVerificationValue(reserved.id);
+		throw error;
+	}
+}
+
+export async function clearLoginFailures(
+	ctx: StorageContext,
+	identifier: string,
+): Promise<void> {
+	const key = `${LOGIN_ATTEMPTS_PREFIX}${identifier.toLowerCase()}`;
+	const secondaryStorage = ctx.context.secondaryStorage;
+	if (secondaryStorage) {
+		await secondaryStorage.delete(key);
+		return;
+	}
+	await ctx.context.adapter.deleteMany({
+		model: "verification",
+		where: [{ field: "identifier", value: key }],
+	});
+}
+
 export async function findOpaqueAccount(
 	ctx: {
 		context: {
@@ -138,13 +966,698 @@ export async function findOpaqueAccount(
 		};
 	},
 	userId: string,
-): Promise<(Account & { registrationRecord: string }) | undefined> {
+): Promise<
+	| (Account & {
+				registrationRecord: string;
+				serverKeyId?: string | null;
+				keyStretching?: string | null;
+		  })
+	| undefined
+> {
 	const accounts = await ctx.context.internalAdapter.findAccounts(userId);
 	return accounts.find((account: Account) => account.providerId === "opaque") as
-		| (Account & { registrationRecord: string })
+		| (Account & {
+				registrationRecord: string;
+				serverKeyId?: string | null;
+				keyStretching?: string | null;
+		  })
 		| undefined;
 }
 
+// Tokens that let one session re-register its user's password, after the
+// password was proven some other way
+const SESSION_TOKENS = {
+	// Issued by an OPAQUE login under an old server key or profile
+	rekey: {
+		expiresIn: REKEY_TOKEN_EXPIRY,
+		noncePrefix: REKEY_TOKEN_NONCE_PREFIX,
+		error: "INVALID_REKEY_TOKEN",
+	},
+	// Issued by a sign-in with a legacy credential password
+	migrate: {
+		expiresIn: MIGRATION_TOKEN_EXPIRY,
+		noncePrefix: MIGRATION_TOKEN_NONCE_PREFIX,
+		error: "INVALID_MIGRATION_TOKEN",
+	},
+} as const satisfies Record<
+	string,
+	{ expiresIn: number; noncePrefix: string; error: OpaqueErrorCode }
+>;
+
+export type SessionTokenPurpose = keyof typeof SESSION_TOKENS;
+
+export async function encryptSessionToken(
+	purpose: SessionTokenPurpose,
+	session: { id: string; userId: string },
+	secret: string,
+): Promise<string> {
+	return await symmetricEncrypt({
+		data: JSON.stringify({
+			userId: session.userId,
+			sessionId: session.id,
+			purpose,
+			nonce: generateRandomString(32),
+			issuedAt: Date.now(),
+		}),
+		key: secret,
+	});
+}
+
+/**
+ * Checks a session token against the signed-in user. The token replaces the
+ * user's registration record, so it only works in the session it was issued
+ * for, and only once.
+ */
+export async function redeemSessionToken(
+	ctx: StorageContext & {
+		context: { session: { user: { id: string }; session: { id: string } } };
+	},
+	purpose: SessionTokenPurpose,
+	token: string,
+	{ consume }: { consume: boolean },
+): Promise<string> {
+	const { expiresIn, noncePrefix, error } = SESSION_TOKENS[purpose];
+	try {
+		const data = JSON.parse(
+			await symmetricDecrypt({
+				key: ctx.context.secret,
+				data: token,
+			}),
+		);
+		if (
+			data.purpose === purpose &&
+			data.userId === ctx.context.session.user.id &&
+			data.sessionId === ctx.context.session.session.id &&
+			typeof data.nonce === "string" &&
+			data.issuedAt + expiresIn >= Date.now() &&
+			(!consume ||
+				(await consumeOnce(
+					ctx,
+					`${noncePrefix}${data.nonce}`,
+					new Date(data.issuedAt + expiresIn),
+				)))
+		) {
+			return data.userId;
+		}
+	} catch {}
+	throw opaqueError("BAD_REQUEST", error);
+}
+
+export async function findResetPasswordUserId(
+	ctx: {
+		context: {
+			internalAdapter: {
+				findVerificationValue: (
+					identifier: string,
+				) => Promise<Verification | null>;
+			};
+		};
+	},
+	token: string,
+): Promise<string | null> {
+	const verification = await ctx.context.internalAdapter.findVerificationValue(
+		`${RESET_PASSWORD_IDENTIFIER_PREFIX}${token}`,
+	);
+	if (!verification || verification.expiresAt < new Date()) {
+		return null;
+	}
+	return verification.value;
+}
+
+/**
+ * Like findResetPasswordUserId, but the token is deleted as it is read. Only
+ * the request that actually deletes it gets the user ID, so a token can't
+ * reset the password twice, even when both requests arrive together.
+ */
+export async function consumeResetPasswordToken(
+	ctx: {
+		context: {
+			internalAdapter: {
+				findVerificationValue: (
+					identifier: string,
+				) => Promise<Verification | null>;
+			};
+			adapter: {
+				deleteMany: (data: {
+					model: string;
+					where: { field: string; value: string }[];
+				}) => Promise<number>;
+			};
+		};
+	},
+	token: string,
+): Promise<string | null> {
+	const verification = await ctx.context.internalAdapter.findVerificationValue(
+		`${RESET_PASSWORD_IDENTIFIER_PREFIX}${token}`,
+	);
+	if (!verification) {
+		return null;
+	}
+	const deleted = await ctx.context.adapter.deleteMany({
+		model: "verification",
+		where: [{ field: "id", value: verification.id }],
+	});
+	if (deleted === 0 || verification.expiresAt < new Date()) {
+		return null;
+	}
+	return verification.value;
+}
+
+// The value stored with a change-email token
+function parseEmailChange(
+	value: string,
+): { userId: string; email: string } | null {
+	try {
+		const { userId, email } = JSON.parse(value);
+		return typeof userId === "string" && typeof email === "string"
+			? { userId, email }
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+export async function findEmailChange(
+	ctx: {
+		context: {
+			internalAdapter: {
+				findVerificationValue: (
+					identifier: string,
+				) => Promise<Verification | null>;
+			};
+		};
+	},
+	token: string,
+): Promise<{ userId: string; email: string } | null> {
+	const verification = await ctx.context.internalAdapter.findVerificationValue(
+		`${CHANGE_EMAIL_IDENTIFIER_PREFIX}${token}`,
+	);
+	if (!verification || verification.expiresAt < new Date()) {
+		return null;
+	}
+	return parseEmailChange(verification.value);
+}
+
+export async function findCredentialAccount(
+	ctx: {
+		context: {
+			internalAdapter: { findAccounts: (userId: string) => Promise<Account[]> };
+		};
+	},
+	userId: string,
+): Promise<Account | undefined> {
+	const accounts = await ctx.context.internalAdapter.findAccounts(userId);
+	return accounts.find(
+		(account: Account) => account.providerId === "credential" && account.password,
+	);
+}
+
+/**
+ * Whether the password was verified through `/opaque/verify-password` in this
+ * session within the last `maxAge` seconds. Use it to guard sensitive actions.
+ */
+export function isPasswordRecentlyVerified(
+	session: Session & { passwordVerifiedAt?: Date | string | null },
+	maxAge = DEFAULT_PASSWORD_VERIFICATION_MAX_AGE,
+): boolean {
+	if (!session.passwordVerifiedAt) {
+		return false;
+	}
+	return (
+		new Date(session.passwordVerifiedAt).getTime() + maxAge * 1000 >= Date.now()
+	);
+}
+
+export type OpaqueVault = {
+	id: string;
+	userId: string;
+	ciphertext: string;
+	version: number;
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+export async function findVault(
+	adapter: DBTransactionAdapter,
+	userId: string,
+): Promise<OpaqueVault | null> {
+	return await adapter.findOne<OpaqueVault>({
+		model: VAULT_MODEL,
+		where: [{ field: "userId", value: userId }],
+	});
+}
+
+/**
+ * Writes the vault if it is still at `version`, where 0 means it doesn't
+ * exist yet, and returns the new version. Concurrent writers from other
+ * devices get a conflict instead of silently overwriting each other.
+ */
+export async function writeVault(
+	adapter: DBTransactionAdapter,
+	userId: string,
+	ciphertext: string,
+	version: number,
+): Promise<number> {
+	const now = new Date();
+	if (version === 0) {
+		if (!(await findVault(adapter, userId))) {
+			await adapter.create({
+				model: VAULT_MODEL,
+				data: {
+					userId,
+					ciphertext,
+					version: 1,
+					createdAt: now,
+					updatedAt: now,
+				},
+			});
+			return 1;
+		}
+	} else {
+		const updated = await adapter.update<OpaqueVault>({
+			model: VAULT_MODEL,
+			where: [
+				{ field: "userId", value: userId },
+				{ field: "version", value: version },
+			],
+			update: { ciphertext, version: version + 1, updatedAt: now },
+		});
+		if (updated) {
+			return version + 1;
+		}
+	}
+	throw opaqueError("CONFLICT", "VAULT_CONFLICT");
+}
+
+/**
+ * Reads the channel binding key of a session. It is left out of the session
+ * Better Auth hands out, so it is read from wherever the session is stored.
+ */
+export async function findChannelBindingKey(
+	ctx: { context: GenericEndpointContext["context"] },
+	token: string,
+): Promise<string | null> {
+	const secondaryStorage = ctx.context.secondaryStorage;
+	if (secondaryStorage) {
+		const stored = await secondaryStorage.get(token);
+		if (typeof stored === "string") {
+			const data = JSON.parse(stored) as {
+				session?: { channelBindingKey?: string | null };
+			};
+			return data.session?.channelBindingKey ?? null;
+		}
+	}
+	const session = await ctx.context.adapter.findOne<{
+		channelBindingKey?: string | null;
+	}>({
+		model: "session",
+		where: [{ field: "token", value: token }],
+	});
+	return session?.channelBindingKey ?? null;
+}
+
+// Bodies of incoming requests as they were sent. Signatures cover the exact
+// bytes, and Better Auth only keeps the parsed body.
+const requestBodies = new WeakMap<Request, Promise<Uint8Array>>();
+
+/**
+ * Keeps a copy of the request body for assertSignedRequest. Call it before
+ * anything reads the body.
+ */
+export function keepRequestBody(request: Request): void {
+	if (request.body && !request.bodyUsed && !requestBodies.has(request)) {
+		requestBodies.set(
+			request,
+			request
+				.clone()
+				.arrayBuffer()
+				.then((body) => new Uint8Array(body)),
+		);
+	}
+}
+
+async function readRequestBody(request: Request): Promise<Uint8Array> {
+	const kept = requestBodies.get(request);
+	if (kept) {
+		return await kept;
+	}
+	if (!request.body) {
+		return new Uint8Array();
+	}
+	if (request.bodyUsed) {
+		throw new Error("The request body was read before its signature was checked");
+	}
+	return new Uint8Array(await request.clone().arrayBuffer());
+}
+
+/**
+ * Rejects a request to a bound session unless it is signed with the session's
+ * channel binding key, recent, and not seen before.
+ */
+export async function assertSignedRequest(
+	ctx: { context: GenericEndpointContext["context"] },
+	request: Request,
+	bindingKey: string,
+	maxSkew: number,
+): Promise<void> {
+	const timestamp = request.headers.get(CHANNEL_BINDING_HEADERS.timestamp);
+	const nonce = request.headers.get(CHANNEL_BINDING_HEADERS.nonce);
+	const signature = request.headers.get(CHANNEL_BINDING_HEADERS.signature);
+	if (!timestamp || !nonce || !signature) {
+		throw opaqueError("UNAUTHORIZED", "CHANNEL_BINDING_REQUIRED");
+	}
+
+	const signedAt = Number(timestamp);
+	if (
+		!Number.isSafeInteger(signedAt) ||
+		Math.abs(Date.now() - signedAt) > maxSkew * 1000
+	) {
+		throw opaqueError("UNAUTHORIZED", "REQUEST_SIGNATURE_EXPIRED");
+	}
+
+	const url = new URL(request.url);
+	const valid =
+		/^[\w-]{16,64}$/.test(nonce) &&
+		(await verifyRequestSignature(
+			bindingKey,
+			{
+				method: request.method,
+				path: `${url.pathname}${url.search}`,
+				timestamp,
+				nonce,
+				body: await readRequestBody(request),
+			},
+			signature,
+		));
+	if (!valid) {
+		throw opaqueError("UNAUTHORIZED", "INVALID_REQUEST_SIGNATURE");
+	}
+
+	// Checked last, so only validly signed requests take up room in the store
+	const consumed = await consumeOnce(
+		ctx,
+		`${REQUEST_NONCE_PREFIX}${nonce}`,
+		new Date(signedAt + maxSkew * 1000),
+	);
+	if (!consumed) {
+		throw opaqueError("UNAUTHORIZED", "REQUEST_REPLAYED");
+	}
+}
+
+/**
+ * Checks a request to one of your own routes the way the plugin checks
+ * requests to Better Auth's, and returns its session, or null without one.
+ * Throws an APIError if the session is bound and the request isn't signed
+ * with its key, recent, and new. Call it before reading the request body.
+ */
+export async function verifySignedRequest<S extends { session: Session }>(
+	request: Request,
+	auth: {
+		$context: Promise<GenericEndpointContext["context"]>;
+		api: { getSession: (context: { headers: Headers }) => Promise<S | null> };
+	},
+): Promise<S | null> {
+	const context = await auth.$context;
+	const session = await auth.api.getSession({ headers: request.headers });
+	const plugin = context.options.plugins?.find((plugin) => plugin.id === "opaque");
+	const channelBinding = (plugin?.options as OpaqueOptions | undefined)
+		?.channelBinding;
+	if (!session || !channelBinding) {
+		return session;
+	}
+
+	const bindingKey = await findChannelBindingKey(
+		{ context },
+		session.session.token,
+	);
+	if (bindingKey) {
+		await assertSignedRequest(
+			{ context },
+			request,
+			bindingKey,
+			channelBinding.maxSkew ?? DEFAULT_CHANNEL_BINDING_MAX_SKEW,
+		);
+	}
+	return session;
+}
+
+export type OpaqueAuditLogEntry = {
+	id: string;
+	event: OpaqueAuditEvent;
+	identifier: string | null;
+	userId: string | null;
+	ipAddress: string | null;
+	userAgent: string | null;
+	createdAt: Date;
+};
+
+// Better Auth doesn't export its own getIp, so this follows the same
+// advanced.ipAddress options
+function getRequestIp(ctx: GenericEndpointContext): string | null {
+	const ipOptions = ctx.context.options.advanced?.ipAddress;
+	const headers = ctx.request?.headers ?? ctx.headers;
+	if (ipOptions?.disableIpTracking || !headers) {
+		return null;
+	}
+	for (const header of ipOptions?.ipAddressHeaders ?? ["x-forwarded-for"]) {
+		const ip = headers.get(header)?.split(",")[0]?.trim();
+		if (ip && (z.ipv4().safeParse(ip).success || z.ipv6().safeParse(ip).success)) {
+			return ip;
+		}
+	}
+	return null;
+}
+
+/**
+ * Records an authentication event. It only takes identifiers and IDs, so
+ * secrets and registration records can't end up in the log. A failed write is
+ * logged rather than thrown, so a broken audit table doesn't stop users from
+ * signing in.
+ */
+export async function writeAuditEvent(
+	ctx: GenericEndpointContext,
+	data: { event: OpaqueAuditEvent; identifier: string; userId?: string },
+): Promise<void> {
+	try {
+		await ctx.context.adapter.create({
+			model: AUDIT_LOG_MODEL,
+			data: {
+				event: data.event,
+				identifier: data.identifier,
+				userId: data.userId ?? null,
+				ipAddress: getRequestIp(ctx),
+				userAgent: (ctx.request?.headers ?? ctx.headers)?.get("user-agent") ?? null,
+				createdAt: new Date(),
+			},
+		});
+	} catch (error) {
+		ctx.context.logger.error("Failed to write the OPAQUE audit log", error);
+	}
+}
+
+// Drops events older than the retention period
+export async function pruneAuditLog(
+	ctx: GenericEndpointContext,
+	retention: number,
+): Promise<void> {
+	try {
+		await ctx.context.adapter.deleteMany({
+			model: AUDIT_LOG_MODEL,
+			where: [
+				{
+					field: "createdAt",
+					operator: "lt",
+					value: new Date(Date.now() - retention * 1000),
+				},
+			],
+		});
+	} catch (error) {
+		ctx.context.logger.error("Failed to prune the OPAQUE audit log", error);
+	}
+}
+
+// The admin plugin stores a user's roles as a comma separated list
+export function hasAdminRole({ user }: { user: User & Record<string, unknown> }): boolean {
+	return (
+		typeof user.role === "string" &&
+		user.role.split(",").some((role) => role.trim() === "admin")
+	);
+}
+
+export async function sendOpaqueVerificationEmail(
+	ctx: GenericEndpointContext,
+	user: User,
+	callbackURL?: string,
+): Promise<void> {
+	const emailVerification = ctx.context.options.emailVerification;
+	if (!emailVerification?.sendVerificationEmail) {
+		return;
+	}
+	const token = await createEmailVerificationToken(
+		ctx.context.secret,
+		user.email,
+		undefined,
+		emailVerification.expiresIn,
+	);
+	const url = `${ctx.context.baseURL}/verify-email?token=${token}&callbackURL=${callbackURL || "/"}`;
+	await emailVerification.sendVerificationEmail({ user, url, token }, ctx.request);
+}
+
+// Cookie names used by Better Auth's twoFactor plugin
+const TWO_FACTOR_COOKIE_NAME = "two_factor";
+const TRUST_DEVICE_COOKIE_NAME = "trust_device";
+// The twoFactor plugin's endpoints that create the session
+export const TWO_FACTOR_VERIFY_PATHS = [
+	"/two-factor/verify-totp",
+	"/two-factor/verify-otp",
+	"/two-factor/verify-backup-code",
+];
+const TWO_FACTOR_REKEY_PREFIX = "opaque-two-factor-rekey:";
+
+type TwoFactorPlugin = {
+	id: "two-factor";
+	options?: { otpOptions?: { period?: number } };
+};
+
+/**
+ * The twoFactor plugin only intercepts its own list of sign-in paths, so
+ * OPAQUE sign-ins have to start the second factor themselves.
+ */
+export function findTwoFactorPlugin(
+	ctx: GenericEndpointContext,
+	user: User,
+): TwoFactorPlugin | undefined {
+	if (!(user as User & { twoFactorEnabled?: boolean }).twoFactorEnabled) {
+		return undefined;
+	}
+	return ctx.context.options.plugins?.find(
+		(plugin) => plugin.id === "two-factor",
+	) as TwoFactorPlugin | undefined;
+}
+
+async function signTrustedDevice(secret: string, value: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = new Uint8Array(
+		await crypto.subtle.sign("HMAC", key, encoder.encode(value)),
+	);
+	return toBase64Url(signature);
+}
+
+/**
+ * Returns the trust token from the twoFactor plugin's trusted device cookie,
+ * if the cookie is valid for this user.
+ */
+export async function findTrustedDeviceToken(
+	ctx: GenericEndpointContext,
+	userId: string,
+): Promise<string | null> {
+	const cookie = ctx.context.createAuthCookie(TRUST_DEVICE_COOKIE_NAME);
+	const value = await ctx.getSignedCookie(cookie.name, ctx.context.secret);
+	if (!value) {
+		return null;
+	}
+	const [token, sessionToken] = value.split("!");
+	const expectedToken = await signTrustedDevice(
+		ctx.context.secret,
+		`${userId}!${sessionToken}`,
+	);
+	return token === expectedToken ? token : null;
+}
+
+// Moves the trusted device cookie over to the new session, as the twoFactor
+// plugin does on its own sign-in paths
+export async function refreshTrustedDevice(
+	ctx: GenericEndpointContext,
+	token: string,
+	sessionToken: string,
+): Promise<void> {
+	const cookie = ctx.context.createAuthCookie(TRUST_DEVICE_COOKIE_NAME);
+	await ctx.setSignedCookie(
+		cookie.name,
+		`${token}!${sessionToken}`,
+		ctx.context.secret,
+		cookie.attributes,
+	);
+}
+
+/**
+ * Sets the pending verification cookie the twoFactor plugin's verify
+ * endpoints create the session from. With `rekey`, the verification is
+ * marked so the session gets a rekey token, see takeTwoFactorRekey.
+ */
+export async function startTwoFactorVerification(
+	ctx: GenericEndpointContext,
+	plugin: TwoFactorPlugin,
+	userId: string,
+	dontRememberMe: boolean,
+	rekey: boolean,
+): Promise<void> {
+	const maxAge = (plugin.options?.otpOptions?.period ?? 3) * 60;
+	const cookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME, {
+		maxAge,
+	});
+	const identifier = `2fa-${generateRandomString(20)}`;
+	const expiresAt = new Date(Date.now() + maxAge * 1000);
+	await ctx.context.internalAdapter.createVerificationValue(
+		{ value: userId, identifier, expiresAt },
+		ctx,
+	);
+	if (rekey) {
+		await ctx.context.internalAdapter.createVerificationValue(
+			{
+				value: userId,
+				identifier: `${TWO_FACTOR_REKEY_PREFIX}${identifier}`,
+				expiresAt,
+			},
+			ctx,
+		);
+	}
+	await ctx.setSignedCookie(
+		cookie.name,
+		identifier,
+		ctx.context.secret,
+		cookie.attributes,
+	);
+	if (dontRememberMe) {
+		await ctx.setSignedCookie(
+			ctx.context.authCookies.dontRememberToken.name,
+			"true",
+			ctx.context.secret,
+			ctx.context.authCookies.dontRememberToken.options,
+		);
+	}
+}
+
+/**
+ * Whether the second factor verified by this request was for an OPAQUE login
+ * that needs a rekey. The mark is removed, so only one token is issued.
+ */
+export async function takeTwoFactorRekey(
+	ctx: GenericEndpointContext,
+	userId: string,
+): Promise<boolean> {
+	const cookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE_NAME);
+	const identifier = await ctx.getSignedCookie(cookie.name, ctx.context.secret);
+	if (!identifier) {
+		return false;
+	}
+	const key = `${TWO_FACTOR_REKEY_PREFIX}${identifier}`;
+	const verification =
+		await ctx.context.internalAdapter.findVerificationValue(key);
+	if (!verification) {
+		return false;
+	}
+	await ctx.context.internalAdapter.deleteVerificationByIdentifier(key);
+	return verification.value === userId && verification.expiresAt > new Date();
+}
+
 export async function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,187 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("audit log", async () => {
+	await ready;
+
+	const db = {
+		user: [] as Record<string, unknown>[],
+		account: [] as Record<string, unknown>[],
+		session: [],
+		verification: [],
+		opaqueAuditLog: [] as Record<string, unknown>[],
+	};
+
+	const serverSetup = server.createSetup();
+	const adminEmail = "admin@untraceable.dev";
+	const createAuditedAuth = () =>
+		createTestAuth({
+			db,
+			plugins: [
+				opaque({
+					OPAQUE_SERVER_KEY: serverSetup,
+					auditLog: {
+						retention: 60 * 60,
+						isAdmin: ({ user }) => user.email === adminEmail,
+					},
+				}),
+			],
+		});
+	const auth = createAuditedAuth();
+
+	const { client } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient()],
+		headers: {
+			"user-agent": "audit-test",
+			"x-forwarded-for": "203.0.113.7, 10.0.0.1",
+		},
+	});
+
+	const email = "audit@untraceable.dev";
+	const password = "supersecurepassword";
+	const userId = () => db.user.find((user) => user.email === email)?.id;
+
+	const admin = createTestClient({ auth, plugins: [opaquePluginClient()] });
+	await admin.client.signUp.opaque({ email: adminEmail, password, name: "Admin" });
+	await admin.client.signIn.opaque({ email: adminEmail, password });
+	const adminHeaders = new Headers({ cookie: admin.cookies.header() });
+
+	const latestEvent = async () => {
+		const { events } = await auth.api.getOpaqueAuditLog({
+			query: { limit: 1 },
+			headers: adminHeaders,
+		});
+		return events[0];
+	};
+
+	test("should record registrations with the request details", async () => {
+		await client.signUp.opaque({ email, password, name: "Audit" });
+
+		expect(await latestEvent()).toMatchObject({
+			event: "registration_attempted",
+			identifier: email,
+			userId: userId(),
+			ipAddress: "203.0.113.7",
+			userAgent: "audit-test",
+		});
+	});
+
+	test("should record a registration for a taken email without a user", async () => {
+		await client.signUp.opaque({ email, password, name: "Again" });
+
+		expect(await latestEvent()).toMatchObject({
+			event: "registration_attempted",
+			identifier: email,
+			userId: null,
+		});
+	});
+
+	test("should never record secrets or registration records", () => {
+		const log = JSON.stringify(db.opaqueAuditLog);
+		expect(log).not.toContain(password);
+		const account = db.account.find((account) => account.userId === userId());
+		expect(log).not.toContain(account?.registrationRecord as string);
+	});
+
+	test("should record successful logins", async () => {
+		await client.signIn.opaque({ email, password });
+
+		expect(await latestEvent()).toMatchObject({
+			event: "login_succeeded",
+			identifier: email,
+			userId: userId(),
+		});
+	});
+
+	test("should record failed logins", async () => {
+		const { startLoginRequest } = opaqueClient.startLogin({ password });
+		const { data } = await client.$fetch<{ state: string }>(
+			"/sign-in/opaque/challenge",
+			{ method: "POST", body: { email, loginRequest: startLoginRequest } },
+		);
+		await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email,
+				loginResult: Buffer.alloc(64).toString("base64url"),
+				encryptedServerState: data?.state,
+			},
+		});
+
+		expect(await latestEvent()).toMatchObject({
+			event: "login_failed",
+			identifier: email,
+			userId: userId(),
+		});
+	});
+
+	test("should record invalid login states", async () => {
+		await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email,
+				loginResult: Buffer.alloc(64).toString("base64url"),
+				encryptedServerState: "not-a-state",
+			},
+		});
+
+		expect(await latestEvent()).toMatchObject({
+			event: "login_state_invalid",
+			identifier: email,
+		});
+	});
+
+	test("should filter events", async () => {
+		const { events } = await auth.api.getOpaqueAuditLog({
+			query: { event: "registration_attempted", identifier: "AUDIT@untraceable.dev" },
+			headers: adminHeaders,
+		});
+		expect(events).toHaveLength(2);
+	});
+
+	test("should drop events past the retention period now and then", async () => {
+		const oldEvent = (id: string) => ({
+			id,
+			event: "login_failed",
+			identifier: email,
+			createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+		});
+		db.opaqueAuditLog.push(oldEvent("old-event"));
+		// A new instance prunes on its first write, then waits for the interval
+		const { client: restartedClient } = createTestClient({
+			auth: createAuditedAuth(),
+			plugins: [opaquePluginClient()],
+		});
+		await restartedClient.signIn.opaque({ email, password });
+		expect(db.opaqueAuditLog.some(({ id }) => id === "old-event")).toBe(false);
+
+		db.opaqueAuditLog.push(oldEvent("next-old-event"));
+		await restartedClient.signIn.opaque({ email, password });
+		expect(db.opaqueAuditLog.some(({ id }) => id === "next-old-event")).toBe(true);
+	});
+
+	test("should only be read by admins", async () => {
+		const { client: anonymousClient } = createTestClient({ auth, plugins: [] });
+		const anonymous = await anonymousClient.$fetch("/opaque/audit-log", {
+			method: "GET",
+		});
+		expect(anonymous.error?.status).toBe(401);
+
+		// Signed in as a user who isn't an admin
+		const { error } = await client.$fetch("/opaque/audit-log", { method: "GET" });
+		expect(error?.status).toBe(403);
+		expect((error as { code?: string }).code).toBe("AUDIT_LOG_FORBIDDEN");
+
+		const response = await auth.handler(
+			new Request("http://localhost:3000/api/auth/opaque/audit-log", {
+				headers: adminHeaders,
+			}),
+		);
+		expect(response.status).toBe(200);
+		expect((await response.json()).events.length).toBeGreaterThan(0);
+	});
+});
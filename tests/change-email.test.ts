@@ -0,0 +1,105 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+describe("changing the email", async () => {
+	await ready;
+
+	const sent: { email: string; url: string; token: string }[] = [];
+	const auth = createTestAuth({
+		db: { ...createMemoryDatabase(), opaqueVault: [] },
+		emailAndPassword: { enabled: true },
+		emailVerification: {
+			sendVerificationEmail: async ({ user, url, token }) => {
+				sent.push({ email: user.email, url, token });
+			},
+		},
+		user: { changeEmail: { enabled: true } },
+		plugins: [
+			opaque({ OPAQUE_SERVER_KEY: server.createSetup(), vault: true }),
+		],
+	});
+
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "old@untraceable.dev";
+	const newEmail = "new@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should refuse Better Auth's change-email for OPAQUE users", async () => {
+		await client.signUp.opaque({ email, password, name: "Changer" });
+		const { data } = await client.signIn.opaque({ email, password });
+		await client.putVault.opaque({
+			exportKey: data?.exportKey as string,
+			data: "keys",
+			version: 0,
+		});
+
+		const result = await client.changeEmail({ newEmail });
+		expect(result.error?.status).toBe(400);
+		expect(result.error?.message).toBe(
+			"Use changeEmail.opaque to change the email",
+		);
+	});
+
+	test("should send a verification link to the new email", async () => {
+		const result = await client.changeEmail.opaque({
+			newEmail: "New@Untraceable.dev",
+			callbackURL: "/confirm-email",
+		});
+		expect(result.data?.success).toBe(true);
+		expect(sent).toHaveLength(1);
+		expect(sent[0]?.email).toBe(newEmail);
+
+		const response = await auth.handler(new Request(sent[0]?.url as string));
+		expect(response.status).toBe(302);
+		expect(response.headers.get("location")).toBe(
+			`http://localhost:3000/confirm-email?token=${sent[0]?.token}`,
+		);
+	});
+
+	test("should keep the email for a wrong password", async () => {
+		const result = await client.confirmEmailChange.opaque({
+			token: sent[0]?.token as string,
+			password: "wrongpassword",
+		});
+		expect(result.error).toBeTruthy();
+
+		const session = await client.getSession();
+		expect(session.data?.user.email).toBe(email);
+	});
+
+	test("should change the email and rebind the password to it", async () => {
+		const result = await client.confirmEmailChange.opaque({
+			token: sent[0]?.token as string,
+			password,
+		});
+		expect(result.data?.success).toBe(true);
+		expect(
+			(await client.getVault.opaque({ exportKey: result.data?.exportKey as string }))
+				.data?.data,
+		).toBe("keys");
+
+		const session = await client.getSession();
+		expect(session.data?.user.email).toBe(newEmail);
+		expect(session.data?.user.emailVerified).toBe(true);
+
+		const oldLogin = await client.signIn.opaque({ email, password });
+		expect(oldLogin.error).toBeTruthy();
+
+		const login = await client.signIn.opaque({ email: newEmail, password });
+		expect(login.data?.success).toBe(true);
+
+		expect(login.data?.exportKey).toBe(result.data?.exportKey as string);
+	});
+
+	test("should only accept the token once", async () => {
+		const result = await client.confirmEmailChange.opaque({
+			token: sent[0]?.token as string,
+			password,
+		});
+		expect(result.error?.status).toBe(400);
+	});
+});
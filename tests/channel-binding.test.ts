@@ -0,0 +1,202 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { APIError } from "better-auth/api";
+import { describe, expect, test } from "bun:test";
+import {
+	CHANNEL_BINDING_HEADERS,
+	deriveChannelBindingKey,
+	signRequest,
+} from "../src/channel-binding";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { verifySignedRequest } from "../src/utils";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+describe("channel binding", async () => {
+	await ready;
+
+	const db = createMemoryDatabase();
+
+	const auth = createTestAuth({
+		db,
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				channelBinding: {},
+			}),
+		],
+	});
+
+	let lastRequest: Request | undefined;
+	const { client, cookies } = createTestClient({
+		auth: {
+			handler: (request) => {
+				lastRequest = request.clone();
+				return auth.handler(request);
+			},
+		},
+		plugins: [opaquePluginClient()],
+	});
+
+	const email = "bound@untraceable.dev";
+	const password = "supersecurepassword";
+	let sessionKey = "";
+
+	// What an attacker holding only the session cookie can send
+	const stolenCookieRequest = (headers: Record<string, string> = {}) =>
+		auth.handler(
+			new Request("http://localhost:3000/api/auth/get-session", {
+				headers: { cookie: cookies.header(), ...headers },
+			}),
+		);
+
+	test("should bind sessions created by an OPAQUE login", async () => {
+		await client.signUp.opaque({ email, password, name: "Bound" });
+		const { data } = await client.signIn.opaque({ email, password });
+		expect(data && "channelBinding" in data && data.channelBinding).toBe(true);
+		sessionKey = data?.sessionKey as string;
+
+		expect(db.session[0]?.channelBindingKey).toBe(
+			await deriveChannelBindingKey(sessionKey),
+		);
+	});
+
+	test("should accept requests signed by the client", async () => {
+		const { data } = await client.getSession();
+		expect(data?.user.email).toBe(email);
+		expect(lastRequest?.headers.get(CHANNEL_BINDING_HEADERS.signature)).toBeTruthy();
+		// The key is never handed out with the session
+		expect(data?.session).not.toHaveProperty("channelBindingKey");
+	});
+
+	test("should sign request bodies", async () => {
+		const { error } = await client.updateUser({ name: "Still Bound" });
+		expect(error).toBeNull();
+	});
+
+	test("should reject unsigned requests with the session cookie", async () => {
+		const response = await stolenCookieRequest();
+		expect(response.status).toBe(401);
+		expect((await response.json()).code).toBe("CHANNEL_BINDING_REQUIRED");
+	});
+
+	test("should reject replayed requests", async () => {
+		await client.getSession();
+		const replayed = await auth.handler(lastRequest as Request);
+		expect(replayed.status).toBe(401);
+		expect((await replayed.json()).code).toBe("REQUEST_REPLAYED");
+	});
+
+	test("should reject a signature for another body", async () => {
+		await client.updateUser({ name: "Signed Name" });
+		const signed = lastRequest as Request;
+		const tampered = await auth.handler(
+			new Request(signed.url, {
+				method: "POST",
+				headers: signed.headers,
+				body: JSON.stringify({ name: "Tampered Name" }),
+			}),
+		);
+		expect(tampered.status).toBe(401);
+		expect((await tampered.json()).code).toBe("INVALID_REQUEST_SIGNATURE");
+	});
+
+	test("should sign the body as it was sent", async () => {
+		// Parsing and serializing again wouldn't give back these bytes
+		const request = await client.signRequest.opaque(
+			new Request("http://localhost:3000/api/auth/update-user", {
+				method: "POST",
+				headers: { "content-type": "application/json", cookie: cookies.header() },
+				body: '{ "name" : "Spaced Name" }',
+			}),
+		);
+		const response = await auth.handler(request);
+		expect(response.status).toBe(200);
+	});
+
+	// A route of the app itself, outside of Better Auth
+	const notes = async (request: Request) => {
+		try {
+			const session = await verifySignedRequest(request, auth);
+			return Response.json({ email: session?.user.email, note: await request.text() });
+		} catch (error) {
+			if (error instanceof APIError) {
+				return Response.json(error.body, { status: 401 });
+			}
+			throw error;
+		}
+	};
+	const notesRequest = () =>
+		new Request("http://localhost:3000/notes", {
+			method: "POST",
+			headers: { cookie: cookies.header() },
+			body: "a note",
+		});
+
+	test("should check signatures on the app's own routes", async () => {
+		const signed = await client.signRequest.opaque(notesRequest());
+		const replay = signed.clone();
+
+		const response = await notes(signed);
+		expect(await response.json()).toEqual({ email, note: "a note" });
+
+		const replayed = await notes(replay);
+		expect(replayed.status).toBe(401);
+		expect((await replayed.json()).code).toBe("REQUEST_REPLAYED");
+
+		const unsigned = await notes(notesRequest());
+		expect(unsigned.status).toBe(401);
+		expect((await unsigned.json()).code).toBe("CHANNEL_BINDING_REQUIRED");
+	});
+
+	test("should reject old signatures", async () => {
+		const timestamp = (Date.now() - 5 * 60 * 1000).toString();
+		const nonce = "an-old-request-nonce";
+		const signature = await signRequest(await deriveChannelBindingKey(sessionKey), {
+			method: "GET",
+			path: "/api/auth/get-session",
+			timestamp,
+			nonce,
+			body: "",
+		});
+		const response = await stolenCookieRequest({
+			[CHANNEL_BINDING_HEADERS.timestamp]: timestamp,
+			[CHANNEL_BINDING_HEADERS.nonce]: nonce,
+			[CHANNEL_BINDING_HEADERS.signature]: signature,
+		});
+		expect(response.status).toBe(401);
+		expect((await response.json()).code).toBe("REQUEST_SIGNATURE_EXPIRED");
+	});
+
+	test("should trust calls from the server itself", async () => {
+		const session = await auth.api.getSession({
+			headers: new Headers({ cookie: cookies.header() }),
+		});
+		expect(session?.user.email).toBe(email);
+	});
+
+	test("should keep the binding when a password change revokes other sessions", async () => {
+		const { data, error } = await client.changePassword.opaque({
+			currentPassword: password,
+			newPassword: "evenmoresecurepassword",
+			revokeOtherSessions: true,
+		});
+		expect(error).toBeNull();
+		expect(db.session).toHaveLength(1);
+		expect(db.session[0]?.token).toBe(data?.token);
+		expect(db.session[0]?.channelBindingKey).toBe(
+			await deriveChannelBindingKey(sessionKey),
+		);
+
+		const session = await client.getSession();
+		expect(session.data?.user.email).toBe(email);
+		expect((await stolenCookieRequest()).status).toBe(401);
+	});
+
+	test("should stop signing once signed out", async () => {
+		const { error } = await client.signOut();
+		expect(error).toBeNull();
+
+		await client.getSession();
+		expect(lastRequest?.headers.get(CHANNEL_BINDING_HEADERS.signature)).toBeNull();
+	});
+});
@@ -0,0 +1,124 @@
+import { ready, server } from "@serenity-kit/opaque";
+import type { BetterAuthOptions } from "better-auth";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+const createDeletionTest = (deleteUser: NonNullable<BetterAuthOptions["user"]>["deleteUser"]) => {
+	const db = {
+		user: [] as { id: string; email: string }[],
+		account: [] as { userId: string }[],
+		session: [] as { userId: string }[],
+		verification: [] as { identifier: string; value: string }[],
+		opaqueVault: [] as { userId: string }[],
+	};
+	const auth = createTestAuth({
+		db,
+		emailAndPassword: {
+			enabled: true,
+			sendResetPassword: async () => {},
+		},
+		emailVerification: { sendVerificationEmail: async () => {} },
+		user: { deleteUser, changeEmail: { enabled: true } },
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				vault: true,
+				bruteForceProtection: {},
+			}),
+		],
+	});
+
+	const { client, cookies } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient()],
+	});
+	return { auth, client, cookies, db };
+};
+
+const password = "supersecurepassword";
+
+describe("account deletion", async () => {
+	await ready;
+
+	const deleted: string[] = [];
+	const { client, db } = createDeletionTest({
+		enabled: true,
+		beforeDelete: async (user) => {
+			deleted.push(`before:${user.email}`);
+		},
+		afterDelete: async (user) => {
+			deleted.push(`after:${user.email}`);
+		},
+	});
+	const email = "delete@untraceable.dev";
+
+	test("should keep the account for a wrong password", async () => {
+		await client.signUp.opaque({ email, password, name: "Delete Me" });
+		const { data } = await client.signIn.opaque({ email, password });
+		await client.putVault.opaque({
+			exportKey: data?.exportKey as string,
+			data: "keys",
+			version: 0,
+		});
+		await client.forgetPassword.opaque({ email });
+		await client.changeEmail.opaque({ newEmail: "moved@untraceable.dev" });
+
+		const result = await client.deleteUser.opaque({ password: "wrongpassword" });
+		expect(result.error).not.toBeNull();
+		expect(db.user).toHaveLength(1);
+		expect(deleted).toEqual([]);
+	});
+
+	test("should delete the user and everything the plugin stored", async () => {
+		const userId = db.user[0]?.id;
+		const isOwnEmailChange = (v: { identifier: string; value: string }) =>
+			v.identifier.startsWith("opaque-change-email:") && v.value.includes(userId as string);
+		// The reset token and the row naming the user of the email change
+		expect(db.verification.filter((v) => v.value === userId)).toHaveLength(2);
+		expect(db.verification.filter(isOwnEmailChange)).toHaveLength(1);
+		const result = await client.deleteUser.opaque({ password });
+		expect(result.data).toEqual({ success: true, message: "User deleted" });
+		expect(deleted).toEqual([`before:${email}`, `after:${email}`]);
+
+		expect(db.user).toHaveLength(0);
+		expect(db.account).toHaveLength(0);
+		expect(db.session).toHaveLength(0);
+		expect(db.opaqueVault).toHaveLength(0);
+		expect(db.verification.filter((v) => v.value === userId)).toHaveLength(0);
+		expect(db.verification.filter(isOwnEmailChange)).toHaveLength(0);
+		expect((await client.getSession()).data).toBeNull();
+	});
+});
+
+describe("account deletion with email confirmation", async () => {
+	await ready;
+
+	const urls: string[] = [];
+	const { auth, client, cookies, db } = createDeletionTest({
+		enabled: true,
+		sendDeleteAccountVerification: async ({ url }) => {
+			urls.push(url);
+		},
+	});
+	const email = "confirm-delete@untraceable.dev";
+
+	test("should only delete once the emailed link is opened", async () => {
+		await client.signUp.opaque({ email, password, name: "Confirm Delete" });
+		await client.signIn.opaque({ email, password });
+
+		const result = await client.deleteUser.opaque({ password, callbackURL: "/goodbye" });
+		expect(result.data).toEqual({ success: true, message: "Verification email sent" });
+		expect(db.user).toHaveLength(1);
+		expect(urls).toHaveLength(1);
+
+		const response = await auth.handler(
+			new Request(urls[0] as string, { headers: { cookie: cookies.header() } }),
+		);
+		expect(response.status).toBe(302);
+		expect(response.headers.get("location")).toBe("/goodbye");
+		expect(db.user).toHaveLength(0);
+		expect(db.account).toHaveLength(0);
+	});
+});
@@ -1,5 +1,8 @@
 import { describe, expect, test } from "bun:test";
-import { encryptServerLoginState } from "../src/utils";
+import {
+	decryptServerLoginState,
+	encryptServerLoginState,
+} from "../src/utils";
 
 describe("ensure encrypted payload sent to client is safe", () => {
 	test("encrypted payload is always the same length", async () => {
@@ -32,4 +35,37 @@ describe("ensure encrypted payload sent to client is safe", () => {
 
 		expect(encrypted1.length).toBe(encrypted2.length);
 	});
+	test("each payload carries a unique nonce", async () => {
+		const secret = "supersecretkey";
+		const user = {
+			id: "user1",
+			email: "user1@example.com",
+			name: "User One",
+		};
+
+		const state1 = await decryptServerLoginState(
+			await encryptServerLoginState("someServerLoginStateData", secret, user),
+			secret,
+		);
+		const state2 = await decryptServerLoginState(
+			await encryptServerLoginState("someServerLoginStateData", secret, user),
+			secret,
+		);
+
+		expect(state1.nonce).not.toBe(state2.nonce);
+	});
+
+	test("expired payloads are rejected", async () => {
+		const secret = "supersecretkey";
+		const encrypted = await encryptServerLoginState(
+			"someServerLoginStateData",
+			secret,
+			null,
+		);
+
+		await Bun.sleep(10);
+		await expect(decryptServerLoginState(encrypted, secret, 0)).rejects.toThrow(
+			"Login state has expired",
+		);
+	});
 });
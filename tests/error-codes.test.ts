@@ -0,0 +1,109 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { OPAQUE_ERROR_CODES } from "../src/error-codes";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("error codes", async () => {
+	await ready;
+
+	const auth = createTestAuth({
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				loginStateExpiresIn: 1,
+				bruteForceProtection: { freeAttempts: 0, maxAttempts: 1 },
+			}),
+		],
+	});
+
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "codes@untraceable.dev";
+	const password = "supersecurepassword";
+
+	const startLogin = async () => {
+		const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({
+			password,
+		});
+		const { data } = await client.$fetch<{ challenge: string; state: string }>(
+			"/sign-in/opaque/challenge",
+			{ method: "POST", body: { email, loginRequest: startLoginRequest } },
+		);
+		const loginAttempt = opaqueClient.finishLogin({
+			password,
+			clientLoginState,
+			loginResponse: data?.challenge as string,
+		});
+		return {
+			loginResult: loginAttempt?.finishLoginRequest as string,
+			encryptedServerState: data?.state as string,
+		};
+	};
+
+	test("should register the codes with the plugin", () => {
+		expect(auth.$ERROR_CODES).toMatchObject(OPAQUE_ERROR_CODES);
+	});
+
+	test("should return INVALID_REQUEST for a malformed login request", async () => {
+		await client.signUp.opaque({ email, password, name: "Codes" });
+
+		const { error } = await client.$fetch("/sign-in/opaque/challenge", {
+			method: "POST",
+			body: { email, loginRequest: "AAAA" },
+		});
+		expect(error?.status).toBe(400);
+		expect(error?.code).toBe("INVALID_REQUEST");
+	});
+
+	test("should return INVALID_STATE for a tampered state", async () => {
+		const { loginResult } = await startLogin();
+
+		const { error } = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: { email, loginResult, encryptedServerState: "not-a-state" },
+		});
+		expect(error?.status).toBe(400);
+		expect(error?.code).toBe("INVALID_STATE");
+	});
+
+	test("should return STATE_EXPIRED for an old state", async () => {
+		const body = await startLogin();
+		await new Promise((resolve) => setTimeout(resolve, 1100));
+
+		const { error } = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: { email, ...body },
+		});
+		expect(error?.status).toBe(400);
+		expect(error?.code).toBe("STATE_EXPIRED");
+	});
+
+	test("should return LOGIN_FAILED for a wrong password", async () => {
+		const { error } = await client.signIn.opaque({
+			email,
+			password: "wrongpassword",
+		});
+		expect(error?.code).toBe("LOGIN_FAILED");
+		expect(error?.message).toBe(OPAQUE_ERROR_CODES.LOGIN_FAILED);
+	});
+
+	test("should return TOO_MANY_ATTEMPTS once locked out", async () => {
+		// A forged proof reaches the server, unlike a wrong password
+		const { encryptedServerState } = await startLogin();
+		const forged = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email,
+				loginResult: Buffer.alloc(64).toString("base64url"),
+				encryptedServerState,
+			},
+		});
+		expect(forged.error?.code).toBe("LOGIN_FAILED");
+
+		const { error } = await client.signIn.opaque({ email, password });
+		expect(error?.status).toBe(429);
+		expect(error?.code).toBe("TOO_MANY_ATTEMPTS");
+	});
+});
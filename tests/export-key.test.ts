@@ -0,0 +1,52 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import {
+	deriveExportSubkey,
+	opaqueClient as opaquePluginClient,
+} from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("export key", async () => {
+	await ready;
+
+	const auth = createTestAuth({
+		plugins: [opaque({ OPAQUE_SERVER_KEY: server.createSetup() })],
+	});
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "e2ee@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should return the same export key on sign up and every sign in", async () => {
+		const signUp = await client.signUp.opaque({ email, password, name: "E2EE" });
+		const exportKey = signUp.data?.exportKey;
+		expect(exportKey).toBeString();
+
+		const first = await client.signIn.opaque({ email, password });
+		const second = await client.signIn.opaque({ email, password });
+		expect(first.data?.exportKey).toBe(exportKey);
+		expect(second.data?.exportKey).toBe(exportKey);
+
+		// The session key is shared with the server and is new for every login
+		expect(first.data?.sessionKey).toBeString();
+		expect(first.data?.sessionKey).not.toBe(second.data?.sessionKey);
+	});
+
+	test("should not return keys for a failed sign in", async () => {
+		const login = await client.signIn.opaque({ email, password: "wrongpassword" });
+		expect(login.data).toBeNull();
+	});
+
+	test("should derive independent subkeys per label", async () => {
+		const { data } = await client.signIn.opaque({ email, password });
+		const exportKey = data?.exportKey as string;
+
+		const notesKey = await deriveExportSubkey(exportKey, "notes");
+		expect(notesKey).toHaveLength(32);
+		expect(await deriveExportSubkey(exportKey, "notes")).toEqual(notesKey);
+		expect(await deriveExportSubkey(exportKey, "files")).not.toEqual(notesKey);
+		expect(await deriveExportSubkey(exportKey, "notes", 64)).toHaveLength(64);
+		await expect(deriveExportSubkey(exportKey, "")).rejects.toThrow();
+	});
+});
@@ -0,0 +1,93 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { fromBase64Url } from "../src/base64url";
+import { opaque } from "../src/server";
+import { createFakeRegistrationRecord } from "../src/utils";
+import { createTestAuth, createTestClient } from "./helpers";
+
+async function hmacSha512(key: Uint8Array, data: Uint8Array) {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		key,
+		{ name: "HMAC", hash: "SHA-512" },
+		false,
+		["sign"],
+	);
+	return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, data));
+}
+
+// Reverses the credential response masking from RFC 9807 section 6.3.2.2
+async function unmaskCredentialResponse(
+	loginResponse: string,
+	maskingKey: Uint8Array,
+): Promise<Uint8Array> {
+	const response = fromBase64Url(loginResponse);
+	const maskingNonce = response.subarray(32, 64);
+	const maskedResponse = response.subarray(64, 192);
+	const info = new Uint8Array([
+		...maskingNonce,
+		...new TextEncoder().encode("CredentialResponsePad"),
+	]);
+	const first = await hmacSha512(maskingKey, new Uint8Array([...info, 1]));
+	const second = await hmacSha512(
+		maskingKey,
+		new Uint8Array([...first, ...info, 2]),
+	);
+	const pad = new Uint8Array([...first, ...second]);
+	return maskedResponse.map((byte, i) => byte ^ (pad[i] as number));
+}
+
+describe("fake registration records", async () => {
+	await ready;
+
+	const serverSetup = server.createSetup();
+
+	test("should be derived from the server key and identifier", async () => {
+		const record = await createFakeRegistrationRecord(serverSetup, "a@b.c");
+
+		expect(await createFakeRegistrationRecord(serverSetup, "a@b.c")).toBe(record);
+		expect(await createFakeRegistrationRecord(serverSetup, "x@b.c")).not.toBe(
+			record,
+		);
+		expect(
+			await createFakeRegistrationRecord(server.createSetup(), "a@b.c"),
+		).not.toBe(record);
+		expect(fromBase64Url(record)).toHaveLength(192);
+	});
+
+	test("should answer unknown users from the same record every time", async () => {
+		const auth = createTestAuth({
+			plugins: [opaque({ OPAQUE_SERVER_KEY: serverSetup })],
+		});
+		const { client } = createTestClient({ auth, plugins: [] });
+
+		const email = "nobody@untraceable.dev";
+		const maskingKey = fromBase64Url(
+			await createFakeRegistrationRecord(serverSetup, email),
+		).subarray(32, 96);
+		const serverPublicKey = fromBase64Url(server.getPublicKey(serverSetup));
+
+		for (let i = 0; i < 3; i++) {
+			const { startLoginRequest } = opaqueClient.startLogin({
+				password: "anything",
+			});
+			const challenge = await client.$fetch<{ challenge: string }>(
+				"/sign-in/opaque/challenge",
+				{
+					method: "POST",
+					body: { email, loginRequest: startLoginRequest },
+				},
+			);
+			if (!challenge.data) {
+				throw new Error("No data returned from login challenge");
+			}
+
+			const credentialResponse = await unmaskCredentialResponse(
+				challenge.data.challenge,
+				maskingKey,
+			);
+			expect(credentialResponse.subarray(0, 32)).toEqual(serverPublicKey);
+			expect(credentialResponse.subarray(32)).toEqual(new Uint8Array(96));
+		}
+	});
+});
@@ -0,0 +1,94 @@
+import type { BetterAuthClientPlugin } from "@better-auth/core";
+import { type BetterAuthOptions, betterAuth } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { createAuthClient } from "better-auth/client";
+
+export const TEST_BASE_URL = "http://localhost:3000";
+
+type MemoryTable = Record<string, unknown>[];
+
+// The tables Better Auth always needs. Spread it to add plugin models.
+export function createMemoryDatabase(): Record<
+	"user" | "account" | "session" | "verification",
+	MemoryTable
+> {
+	return { user: [], account: [], session: [], verification: [] };
+}
+
+/**
+ * An in-process Better Auth instance. Pass `db` to inspect the tables, or to
+ * share them between instances as a real database would be.
+ */
+export function createTestAuth<
+	const O extends Omit<BetterAuthOptions, "baseURL" | "database"> & {
+		db?: Record<string, MemoryTable>;
+	},
+>({ db = createMemoryDatabase(), ...options }: O) {
+	return betterAuth({
+		baseURL: TEST_BASE_URL,
+		secret: "better-auth-opaque-test-secret",
+		database: memoryAdapter(db),
+		...options,
+	});
+}
+
+/**
+ * Keeps cookies between requests the way a browser would, since there is
+ * none here to do it.
+ */
+export function createCookieJar() {
+	const cookies = new Map<string, string>();
+	const header = () =>
+		[...cookies].map(([name, value]) => `${name}=${value}`).join("; ");
+	return {
+		header,
+		names: () => [...cookies.keys()],
+		delete: (name: string) => cookies.delete(name),
+		clear: () => cookies.clear(),
+		onRequest(context: { headers: Headers }) {
+			if (cookies.size > 0) {
+				context.headers.set("cookie", header());
+			}
+		},
+		onResponse(context: { response: Response }) {
+			for (const setCookie of context.response.headers.getSetCookie()) {
+				const [name, value] = (setCookie.split(";")[0] ?? "").split(/=(.*)/);
+				if (!name) {
+					continue;
+				}
+				if (value) {
+					cookies.set(name, value);
+				} else {
+					cookies.delete(name);
+				}
+			}
+		},
+	};
+}
+
+/**
+ * A client with a cookie jar. With `auth`, requests go straight to its
+ * handler, otherwise to a running server at `baseURL`.
+ */
+export function createTestClient<const P extends BetterAuthClientPlugin[]>(options: {
+	plugins: P;
+	auth?: { handler: (request: Request) => Promise<Response> };
+	baseURL?: string;
+	headers?: Record<string, string>;
+}) {
+	const cookies = createCookieJar();
+	const { auth } = options;
+	const client = createAuthClient({
+		baseURL: options.baseURL ?? TEST_BASE_URL,
+		plugins: options.plugins,
+		fetchOptions: {
+			customFetchImpl: auth
+				? (url, init) => auth.handler(new Request(url, init))
+				: undefined,
+			headers: options.headers,
+			onRequest: cookies.onRequest,
+			onResponse: cookies.onResponse,
+		},
+	});
+	return { client, cookies };
+}
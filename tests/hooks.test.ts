@@ -0,0 +1,195 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { APIError } from "better-auth/api";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("additional fields and hooks", async () => {
+	await ready;
+
+	const db = {
+		user: [] as Record<string, unknown>[],
+		account: [],
+		session: [],
+		verification: [],
+	};
+	const registered: { identifier: string; created: boolean }[] = [];
+	const succeeded: string[] = [];
+	const failed: { identifier: string; reason: string }[] = [];
+
+	const auth = createTestAuth({
+		db,
+		user: {
+			additionalFields: {
+				company: { type: "string", required: true },
+				role: { type: "string", required: false, input: false },
+			},
+		},
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				beforeRegister: ({ email, additionalFields }) => {
+					if (additionalFields.company === "Blocked") {
+						throw new APIError("FORBIDDEN", { message: `Blocked ${email}` });
+					}
+				},
+				afterRegister: ({ identifier, user }) => {
+					registered.push({ identifier, created: user !== null });
+				},
+				onLoginSuccess: ({ identifier, user }) => {
+					if (user.name === "Suspended") {
+						throw new APIError("FORBIDDEN", { message: "Suspended" });
+					}
+					succeeded.push(identifier);
+				},
+				onLoginFailure: ({ identifier, reason }) => {
+					failed.push({ identifier, reason });
+				},
+			}),
+		],
+	});
+
+	const { client } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient<typeof auth>()],
+	});
+
+	const email = "hooks@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should require the configured additional fields", async () => {
+		// @ts-expect-error company is a required field
+		const { error } = await client.signUp.opaque({ email, password, name: "Hooks" });
+		expect(error?.status).toBe(400);
+		expect(error?.message).toBe("company is required");
+		expect(db.user).toHaveLength(0);
+	});
+
+	test("should store the additional fields on the user", async () => {
+		const { error } = await client.signUp.opaque({
+			email,
+			password,
+			name: "Hooks",
+			company: "Acme",
+			// @ts-expect-error role isn't accepted as input
+			role: "admin",
+		});
+		expect(error).toBeNull();
+		expect(db.user[0]?.company).toBe("Acme");
+		// Fields that aren't accepted as input are dropped
+		expect(db.user[0]?.role).toBeUndefined();
+		expect(registered).toEqual([{ identifier: email, created: true }]);
+	});
+
+	test("should run afterRegister without a user for a taken email", async () => {
+		const { error } = await client.signUp.opaque({
+			email,
+			password,
+			name: "Again",
+			company: "Acme",
+		});
+		expect(error).toBeNull();
+		expect(registered[1]).toEqual({ identifier: email, created: false });
+	});
+
+	test("should let beforeRegister reject new and existing users alike", async () => {
+		const existing = await client.signUp.opaque({
+			email,
+			password,
+			name: "Hooks",
+			company: "Blocked",
+		});
+		const fresh = await client.signUp.opaque({
+			email: "fresh@untraceable.dev",
+			password,
+			name: "Fresh",
+			company: "Blocked",
+		});
+		expect(existing.error?.status).toBe(403);
+		expect(fresh.error?.status).toBe(403);
+		expect(db.user).toHaveLength(1);
+	});
+
+	test("should run onLoginSuccess after a successful proof", async () => {
+		const { error } = await client.signIn.opaque({ email, password });
+		expect(error).toBeNull();
+		expect(succeeded).toEqual([email]);
+	});
+
+	test("should sign in users with large additional fields", async () => {
+		const large = "large@untraceable.dev";
+		await client.signUp.opaque({
+			email: large,
+			password,
+			name: "Large",
+			company: "Acme ".repeat(400),
+		});
+
+		const { error } = await client.signIn.opaque({ email: large, password });
+		expect(error).toBeNull();
+		expect(succeeded).toContain(large);
+	});
+
+	test("should refuse the sign-in when onLoginSuccess throws", async () => {
+		const suspended = "suspended@untraceable.dev";
+		await client.signUp.opaque({
+			email: suspended,
+			password,
+			name: "Suspended",
+			company: "Acme",
+		});
+
+		const { data, error } = await client.signIn.opaque({ email: suspended, password });
+		expect(error?.status).toBe(403);
+		expect(data).toBeNull();
+	});
+
+	test("should run onLoginFailure for unknown users", async () => {
+		const unknown = "unknown@untraceable.dev";
+		const { startLoginRequest } = opaqueClient.startLogin({ password });
+		const { data } = await client.$fetch<{ state: string }>(
+			"/sign-in/opaque/challenge",
+			{ method: "POST", body: { email: unknown, loginRequest: startLoginRequest } },
+		);
+
+		// A forged proof reaches the server, unlike a wrong password
+		const complete = (email: string) =>
+			client.$fetch("/sign-in/opaque/complete", {
+				method: "POST",
+				body: {
+					email,
+					loginResult: Buffer.alloc(64).toString("base64url"),
+					encryptedServerState: data?.state,
+				},
+			});
+		const { error } = await complete(unknown);
+		expect(error?.code).toBe("LOGIN_FAILED");
+		expect(failed).toEqual([{ identifier: unknown, reason: "invalid_credentials" }]);
+
+		// Replays are reported too
+		const replayed = await complete(unknown);
+		expect(replayed.error?.code).toBe("INVALID_STATE");
+		expect(failed.at(-1)).toEqual({ identifier: unknown, reason: "invalid_state" });
+	});
+
+	test("should run onLoginFailure for a state issued to another identifier", async () => {
+		const { startLoginRequest } = opaqueClient.startLogin({ password });
+		const { data } = await client.$fetch<{ state: string }>(
+			"/sign-in/opaque/challenge",
+			{ method: "POST", body: { email, loginRequest: startLoginRequest } },
+		);
+
+		const other = "other@untraceable.dev";
+		const { error } = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email: other,
+				loginResult: Buffer.alloc(64).toString("base64url"),
+				encryptedServerState: data?.state,
+			},
+		});
+		expect(error?.code).toBe("INVALID_STATE");
+		expect(failed.at(-1)).toEqual({ identifier: other, reason: "identifier_mismatch" });
+	});
+});
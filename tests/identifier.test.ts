@@ -0,0 +1,143 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { username } from "better-auth/plugins/username";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import type { OpaqueOptions } from "../src/utils";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+const createIdentifierClient = (
+	identifier: OpaqueOptions["identifier"],
+	plugins: ReturnType<typeof username>[] = [],
+) => {
+	const auth = createTestAuth({
+		plugins: [
+			...plugins,
+			opaque({ OPAQUE_SERVER_KEY: server.createSetup(), identifier }),
+		],
+	});
+	return createTestClient({ auth, plugins: [opaquePluginClient()] }).client;
+};
+
+describe("identifiers", async () => {
+	await ready;
+
+	const password = "supersecurepassword";
+
+	test("should normalize emails before binding them", async () => {
+		const client = createIdentifierClient("email");
+		await client.signUp.opaque({
+			email: "Mixed.Case@Untraceable.dev",
+			password,
+			name: "Mixed Case User",
+		});
+
+		const login = await client.signIn.opaque({
+			email: "  mixed.case@untraceable.DEV ",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+	});
+
+	test("should store the normalized email at sign-up", async () => {
+		const db = createMemoryDatabase();
+		const auth = createTestAuth({
+			db,
+			plugins: [opaque({ OPAQUE_SERVER_KEY: server.createSetup() })],
+		});
+		const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+		const signUp = await client.signUp.opaque({
+			email: "  Spaced.Mixed@Untraceable.dev ",
+			password,
+			name: "Spaced User",
+		});
+		expect(signUp.error).toBeNull();
+		expect(db.user[0]?.email).toBe("spaced.mixed@untraceable.dev");
+
+		const login = await client.signIn.opaque({
+			email: "SPACED.MIXED@untraceable.dev",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+	});
+
+	test("should move records bound to the email as typed to the normalized email", async () => {
+		const serverSetup = server.createSetup();
+		const db = createMemoryDatabase();
+		const auth = createTestAuth({
+			db,
+			plugins: [opaque({ OPAQUE_SERVER_KEY: serverSetup })],
+		});
+		const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+		const email = "Legacy.User@Untraceable.dev";
+		await client.signUp.opaque({ email, password, name: "Legacy User" });
+
+		// Registered before emails were normalized
+		const { clientRegistrationState, registrationRequest } =
+			opaqueClient.startRegistration({ password });
+		const { registrationResponse } = server.createRegistrationResponse({
+			serverSetup,
+			userIdentifier: email,
+			registrationRequest,
+		});
+		const { registrationRecord } = opaqueClient.finishRegistration({
+			password,
+			clientRegistrationState,
+			registrationResponse,
+		});
+		const account = db.account.find(({ providerId }) => providerId === "opaque");
+		Object.assign(account!, { registrationRecord });
+
+		const legacyLogin = await client.signIn.opaque({ email, password });
+		expect(legacyLogin.data?.success).toBe(true);
+		expect(legacyLogin.data?.previousExportKey).toBeString();
+		expect(account?.registrationRecord).not.toBe(registrationRecord);
+
+		const login = await client.signIn.opaque({
+			email: "legacy.user@untraceable.dev",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+		expect(login.data?.exportKey).toBe(legacyLogin.data?.exportKey);
+	});
+
+	test("should sign in by username", async () => {
+		const client = createIdentifierClient("username", [username()]);
+		await client.signUp.opaque({
+			email: "username-user@untraceable.dev",
+			username: "Opaque_User",
+			password,
+			name: "Username User",
+		});
+
+		const login = await client.signIn.opaque({
+			username: "opaque_user",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+
+		const emailLogin = await client.signIn.opaque({
+			email: "username-user@untraceable.dev",
+			password,
+		});
+		expect(emailLogin.data).toBeNull();
+	});
+
+	test("should not register a second user with a taken email", async () => {
+		const client = createIdentifierClient("username", [username()]);
+		const email = "taken@untraceable.dev";
+		await client.signUp.opaque({ email, username: "first", password, name: "First" });
+
+		const second = await client.signUp.opaque({
+			email,
+			username: "second",
+			password,
+			name: "Second",
+		});
+		expect(second.data).toBeDefined();
+
+		const login = await client.signIn.opaque({ username: "second", password });
+		expect(login.data).toBeNull();
+	});
+});
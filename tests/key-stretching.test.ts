@@ -0,0 +1,99 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import type { OpaqueKeyStretching } from "../src/utils";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("key stretching profiles", async () => {
+	await ready;
+
+	// Shared between the auth instances, as a real database would be
+	const db = {
+		user: [],
+		account: [] as { providerId: string; keyStretching?: string | null }[],
+		session: [],
+		verification: [],
+	};
+	const serverKey = server.createSetup();
+	const customProfile: OpaqueKeyStretching = {
+		"argon2id-custom": { iterations: 1, memory: 8192, parallelism: 1 },
+	};
+
+	const createStretchingTest = (
+		keyStretching?: OpaqueKeyStretching,
+		previousKeyStretching?: OpaqueKeyStretching[],
+	) => {
+		const auth = createTestAuth({
+			db,
+			plugins: [
+				opaque({ OPAQUE_SERVER_KEY: serverKey, keyStretching, previousKeyStretching }),
+			],
+		});
+		const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+		return { auth, client };
+	};
+
+	const getLoginChallenge = async (
+		client: ReturnType<typeof createStretchingTest>["client"],
+		email: string,
+	) => {
+		const { startLoginRequest } = opaqueClient.startLogin({ password });
+		const { data } = await client.$fetch<{ keyStretching: OpaqueKeyStretching }>(
+			"/sign-in/opaque/challenge",
+			{ method: "POST", body: { email, loginRequest: startLoginRequest } },
+		);
+		return data?.keyStretching;
+	};
+
+	const email = "stretching@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should store the default profile on new accounts", async () => {
+		const { client } = createStretchingTest();
+		await client.signUp.opaque({ email, password, name: "Stretching User" });
+
+		expect(db.account[0]?.keyStretching).toBe("memory-constrained");
+		expect(await getLoginChallenge(client, email)).toBe("memory-constrained");
+	});
+
+	test("should advertise the account's profile and upgrade it after a login", async () => {
+		const { client } = createStretchingTest(customProfile);
+		expect(await getLoginChallenge(client, email)).toBe("memory-constrained");
+		// Unknown users get the configured profile
+		expect(await getLoginChallenge(client, "nobody@untraceable.dev")).toEqual(
+			customProfile,
+		);
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+		expect(login.data?.previousExportKey).toBeDefined();
+
+		expect(db.account[0]?.keyStretching).toBe(JSON.stringify(customProfile));
+		expect(await getLoginChallenge(client, email)).toEqual(customProfile);
+
+		const upgraded = await client.signIn.opaque({ email, password });
+		expect(upgraded.data?.success).toBe(true);
+		expect(upgraded.data?.exportKey).toBe(login.data?.exportKey);
+		expect(upgraded.data?.previousExportKey).toBeUndefined();
+	});
+
+	test("should answer unknown users with the profiles accounts are still on", async () => {
+		const { client } = createStretchingTest(customProfile, ["memory-constrained"]);
+		const unknownEmails = Array.from(
+			{ length: 16 },
+			(_, index) => `unknown-${index}@untraceable.dev`,
+		);
+
+		const profiles = [];
+		for (const unknownEmail of unknownEmails) {
+			const profile = await getLoginChallenge(client, unknownEmail);
+			// Asking again gives the same answer, like it would for an account
+			expect(await getLoginChallenge(client, unknownEmail)).toEqual(profile!);
+			profiles.push(JSON.stringify(profile));
+		}
+		expect(new Set(profiles)).toEqual(
+			new Set([JSON.stringify(customProfile), JSON.stringify("memory-constrained")]),
+		);
+	});
+});
@@ -0,0 +1,105 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { anonymousClient } from "better-auth/client/plugins";
+import { anonymous } from "better-auth/plugins";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("linking a password", async () => {
+	await ready;
+
+	const auth = createTestAuth({
+		plugins: [opaque({ OPAQUE_SERVER_KEY: server.createSetup() }), anonymous()],
+	});
+
+	const { client } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient(), anonymousClient()],
+	});
+
+	const password = "supersecurepassword";
+
+	test("should require a session", async () => {
+		const result = await client.linkPassword.opaque({ password });
+		expect(result.error?.status).toBe(401);
+	});
+
+	test("should ask an anonymous user for an email", async () => {
+		await client.signIn.anonymous();
+
+		const result = await client.linkPassword.opaque({ password });
+		expect(result.error?.status).toBe(400);
+		expect(result.error?.message).toBe("Invalid email");
+	});
+
+	test("should not bind the password to an anonymous user's placeholder email", async () => {
+		// With a domain name set, the placeholder email is a valid one
+		const placeholderAuth = createTestAuth({
+			plugins: [
+				opaque({ OPAQUE_SERVER_KEY: server.createSetup() }),
+				anonymous({ emailDomainName: "example.com" }),
+			],
+		});
+		const { client: placeholderClient } = createTestClient({
+			auth: placeholderAuth,
+			plugins: [opaquePluginClient(), anonymousClient()],
+		});
+		await placeholderClient.signIn.anonymous();
+
+		const result = await placeholderClient.linkPassword.opaque({ password });
+		expect(result.error?.status).toBe(400);
+		expect(result.error?.message).toBe("Invalid email");
+	});
+
+	test("should refuse an email that is already in use", async () => {
+		await client.signUp.opaque({
+			email: "taken@example.com",
+			password,
+			name: "Taken",
+		});
+		await client.signIn.anonymous();
+
+		const result = await client.linkPassword.opaque({
+			password,
+			email: "taken@example.com",
+		});
+		expect(result.error?.status).toBe(400);
+	});
+
+	test("should let an anonymous user add a password and sign in with it", async () => {
+		const session = await client.getSession();
+
+		const linked = await client.linkPassword.opaque({
+			password,
+			email: "Linked@Example.com",
+		});
+		expect(linked.data?.success).toBe(true);
+
+		const updated = await client.getSession();
+		expect(updated.data?.user.email).toBe("linked@example.com");
+		expect(updated.data?.user.isAnonymous).toBe(false);
+
+		const login = await client.signIn.opaque({
+			email: "linked@example.com",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+		expect(login.data?.user.id).toBe(session.data?.user.id as string);
+		expect(login.data?.exportKey).toBe(linked.data?.exportKey);
+	});
+
+	test("should refuse to link a second password", async () => {
+		const result = await client.linkPassword.opaque({
+			password: "anotherpassword",
+		});
+		expect(result.error?.status).toBe(400);
+		expect(result.error?.message).toBe("User already has an OPAQUE account");
+
+		const login = await client.signIn.opaque({
+			email: "linked@example.com",
+			password,
+		});
+		expect(login.data?.success).toBe(true);
+	});
+});
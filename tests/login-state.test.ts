@@ -0,0 +1,110 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("server-side login state storage", async () => {
+	await ready;
+
+	const db = {
+		user: [],
+		account: [],
+		session: [],
+		verification: [],
+	};
+
+	const auth = createTestAuth({
+		db,
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				loginStateStorage: "server",
+			}),
+		],
+	});
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "server-state@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should sign in with the unchanged client", async () => {
+		await client.signUp.opaque({ email, password, name: "Server State User" });
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+	});
+
+	test("should only hand out a handle and consume it on use", async () => {
+		const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({
+			password,
+		});
+		const challenge = await client.$fetch<{ challenge: string; state: string }>(
+			"/sign-in/opaque/challenge",
+			{
+				method: "POST",
+				body: { email, loginRequest: startLoginRequest },
+			},
+		);
+		if (!challenge.data) {
+			throw new Error("No data returned from login challenge");
+		}
+		expect(challenge.data.state.length).toBe(32);
+
+		const loginAttempt = opaqueClient.finishLogin({
+			password,
+			clientLoginState,
+			loginResponse: challenge.data.challenge,
+		});
+		const body = {
+			email,
+			loginResult: loginAttempt?.finishLoginRequest,
+			encryptedServerState: challenge.data.state,
+		};
+
+		const first = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body,
+		});
+		expect(first.error).toBeNull();
+
+		const replay = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body,
+		});
+		expect(replay.error?.status).toBe(400);
+	});
+
+	test("should not let concurrent replays both succeed", async () => {
+		const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({
+			password,
+		});
+		const challenge = await client.$fetch<{ challenge: string; state: string }>(
+			"/sign-in/opaque/challenge",
+			{
+				method: "POST",
+				body: { email, loginRequest: startLoginRequest },
+			},
+		);
+		if (!challenge.data) {
+			throw new Error("No data returned from login challenge");
+		}
+		const loginAttempt = opaqueClient.finishLogin({
+			password,
+			clientLoginState,
+			loginResponse: challenge.data.challenge,
+		});
+		const body = {
+			email,
+			loginResult: loginAttempt?.finishLoginRequest,
+			encryptedServerState: challenge.data.state,
+		};
+
+		const attempts = await Promise.all(
+			[1, 2].map(() =>
+				client.$fetch("/sign-in/opaque/complete", { method: "POST", body }),
+			),
+		);
+		expect(attempts.filter((attempt) => attempt.error === null).length).toBe(1);
+	});
+});
@@ -0,0 +1,119 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("credential account migration", async () => {
+	await ready;
+
+	const auth = createTestAuth({
+		emailAndPassword: {
+			enabled: true,
+		},
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				credentialMigration: {
+					deleteLegacyPassword: true,
+				},
+			}),
+		],
+	});
+
+	const { client, cookies } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient({ credentialFallback: true })],
+	});
+
+	const email = "legacy@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should move a credential user to OPAQUE on sign in", async () => {
+		await auth.api.signUpEmail({
+			body: { email, password, name: "Legacy User" },
+		});
+		expect(await auth.api.getMigrationStatus()).toEqual({
+			legacyAccounts: 1,
+			migratedAccounts: 0,
+			remaining: 1,
+		});
+
+		const fallbackLogin = await client.signIn.opaque({ email, password });
+		expect(fallbackLogin.data?.success).toBe(true);
+
+		expect(await auth.api.getMigrationStatus()).toEqual({
+			legacyAccounts: 0,
+			migratedAccounts: 1,
+			remaining: 0,
+		});
+
+		// The legacy hash is gone, so this can only be an OPAQUE login
+		cookies.clear();
+		const opaqueLogin = await client.signIn.opaque({ email, password });
+		expect(opaqueLogin.data?.success).toBe(true);
+		await expect(
+			auth.api.signInEmail({ body: { email, password } }),
+		).rejects.toThrow();
+	});
+
+	test("should not fall back for a wrong password", async () => {
+		cookies.clear();
+		const login = await client.signIn.opaque({
+			email,
+			password: "wrongpassword",
+		});
+		expect(login.data).toBeNull();
+	});
+
+	test("should only migrate with the token from a password sign-in", async () => {
+		const tokenEmail = "legacy-token@untraceable.dev";
+		await auth.api.signUpEmail({
+			body: { email: tokenEmail, password, name: "Legacy Token User" },
+		});
+
+		const signIn = async () => {
+			const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+			const { data } = await client.signIn.email({ email: tokenEmail, password });
+			const { token } = (data as { opaqueMigration?: { token: string } })
+				.opaqueMigration!;
+			return { client, token };
+		};
+		const migrate = async (
+			via: Awaited<ReturnType<typeof signIn>>["client"],
+			token: string,
+		) => {
+			const { clientRegistrationState, registrationRequest } =
+				opaqueClient.startRegistration({ password });
+			const challenge = await via.$fetch<{ challenge: string }>(
+				"/opaque/migrate/challenge",
+				{ method: "POST", body: { token, registrationRequest } },
+			);
+			if (challenge.error) {
+				return challenge;
+			}
+			const { registrationRecord } = opaqueClient.finishRegistration({
+				password,
+				clientRegistrationState,
+				registrationResponse: challenge.data.challenge,
+			});
+			return await via.$fetch("/opaque/migrate/complete", {
+				method: "POST",
+				body: { token, registrationRecord },
+			});
+		};
+
+		const { client: signedIn, token } = await signIn();
+		expect(token).toBeString();
+
+		// A fresh session alone doesn't prove the password
+		const forged = await migrate(signedIn, "not-a-token");
+		expect(forged.error?.code).toBe("INVALID_MIGRATION_TOKEN");
+
+		const otherSession = await migrate((await signIn()).client, token);
+		expect(otherSession.error?.code).toBe("INVALID_MIGRATION_TOKEN");
+
+		const migrated = await migrate(signedIn, token);
+		expect(migrated.error).toBeNull();
+	});
+});
@@ -1,7 +1,8 @@
-import { ready } from "@serenity-kit/opaque";
+import { client as opaqueClient, ready } from "@serenity-kit/opaque";
 import { createAuthClient } from "better-auth/client";
 import { describe, expect, test } from "bun:test";
 import { opaqueClient as opaquePluginClient } from "../src/client";
+import { createTestClient } from "./helpers";
 
 describe("opaque", async () => {
 	await ready;
@@ -13,6 +14,13 @@ describe("opaque", async () => {
 
 	const password = "supersecurepassword";
 
+	// Helper function to create a client that keeps the session cookie between requests
+	const createCookieClient = () =>
+		createTestClient({
+			baseURL: "http://localhost:8080",
+			plugins: [opaquePluginClient()],
+		}).client;
+
 	// Helper function to register a user for testing
 	const registerTestUser = async (
 		email: string,
@@ -141,4 +149,149 @@ describe("opaque", async () => {
 		}
 	});
 
+	test("should change password with a valid current password", async () => {
+		const email = "change-password@untraceable.dev";
+		const newPassword = "evenmoresecurepassword";
+		const authedClient = createCookieClient();
+
+		await registerTestUser(email, password, "Change Password User");
+		await authedClient.signIn.opaque({ email, password });
+
+		const changeResponse = await authedClient.changePassword.opaque({
+			currentPassword: password,
+			newPassword,
+		});
+		expect(changeResponse.error).toBeNull();
+
+		const oldLogin = await client.signIn.opaque({ email, password });
+		expect(oldLogin.error).toBeDefined();
+		expect(oldLogin.data).toBeNull();
+
+		const newLogin = await client.signIn.opaque({ email, password: newPassword });
+		expect(newLogin.data?.success).toBe(true);
+	});
+
+	test("should reject password change with wrong current password", async () => {
+		const email = "change-password-wrong@untraceable.dev";
+		const authedClient = createCookieClient();
+
+		await registerTestUser(email, password, "Change Password Wrong User");
+		await authedClient.signIn.opaque({ email, password });
+
+		const changeResponse = await authedClient.changePassword.opaque({
+			currentPassword: "notmypassword",
+			newPassword: "evenmoresecurepassword",
+		});
+		expect(changeResponse.data).toBeNull();
+		expect(changeResponse.error).toBeDefined();
+	});
+
+	test("should reject password change without a session", async () => {
+		const changeResponse = await client.changePassword.opaque({
+			currentPassword: password,
+			newPassword: "evenmoresecurepassword",
+		});
+		expect(changeResponse.data).toBeNull();
+		expect(changeResponse.error).toBeDefined();
+	});
+	test("should return the same forget password response for unknown emails", async () => {
+		const email = "forget-password-known@untraceable.dev";
+		await registerTestUser(email, password, "Forget Password User");
+
+		const known = await client.forgetPassword.opaque({ email });
+		const unknown = await client.forgetPassword.opaque({
+			email: "forget-password-unknown@untraceable.dev",
+		});
+
+		expect(known.data).toEqual(unknown.data);
+	});
+
+	test("should reset password with an emailed token", async () => {
+		const email = "reset-password@untraceable.dev";
+		const newPassword = "brandnewpassword";
+
+		await registerTestUser(email, password, "Reset Password User");
+		await client.forgetPassword.opaque({ email });
+
+		const { token } = await fetch(
+			`http://localhost:8080/test/reset-token/${email}`,
+		).then((res) => res.json() as Promise<{ token: string }>);
+		expect(token).toBeTruthy();
+
+		const resetResponse = await client.resetPassword.opaque({
+			token,
+			newPassword,
+		});
+		expect(resetResponse.data?.status).toBe(true);
+
+		const newLogin = await client.signIn.opaque({ email, password: newPassword });
+		expect(newLogin.data?.success).toBe(true);
+
+		// Tokens are single use
+		const reuseResponse = await client.resetPassword.opaque({
+			token,
+			newPassword: password,
+		});
+		expect(reuseResponse.data).toBeNull();
+	});
+	// Runs the login flow by hand, so tests can tamper with the completion request
+	const startRawLogin = async (email: string, password: string) => {
+		const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({
+			password,
+		});
+		const challenge = await client.$fetch<{ challenge: string; state: string }>(
+			"/sign-in/opaque/challenge",
+			{
+				method: "POST",
+				body: { email, loginRequest: startLoginRequest },
+			},
+		);
+		if (!challenge.data) {
+			throw new Error("No data returned from login challenge");
+		}
+		const loginAttempt = opaqueClient.finishLogin({
+			password,
+			clientLoginState,
+			loginResponse: challenge.data.challenge,
+		});
+		if (!loginAttempt) {
+			throw new Error("Login failed");
+		}
+		return {
+			loginResult: loginAttempt.finishLoginRequest,
+			encryptedServerState: challenge.data.state,
+		};
+	};
+
+	test("should not allow a login state to be completed twice", async () => {
+		const email = "replay@untraceable.dev";
+		await registerTestUser(email, password, "Replay User");
+
+		const body = { email, ...(await startRawLogin(email, password)) };
+		const first = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body,
+		});
+		expect(first.error).toBeNull();
+
+		const replay = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body,
+		});
+		expect(replay.error?.status).toBe(400);
+	});
+
+	test("should not allow a login state to be completed for another email", async () => {
+		const email = "bound-state@untraceable.dev";
+		await registerTestUser(email, password, "Bound State User");
+
+		const completion = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email: "someone-else@untraceable.dev",
+				...(await startRawLogin(email, password)),
+			},
+		});
+		expect(completion.error?.status).toBe(400);
+	});
 });
@@ -0,0 +1,137 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { scorePasswordStrength } from "../src/password-policy";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("password policy", async () => {
+	await ready;
+
+	const db = {
+		user: [] as Record<string, unknown>[],
+		account: [],
+		session: [],
+		verification: [],
+	};
+	const breached = new Set(["Password1!breached"]);
+	const checked: string[] = [];
+
+	const auth = createTestAuth({
+		db,
+		emailAndPassword: {
+			enabled: false,
+			minPasswordLength: 10,
+		},
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				passwordPolicy: {
+					requireUppercase: true,
+					requireDigit: true,
+					minStrength: 2,
+					rejectBreached: true,
+				},
+			}),
+		],
+	});
+
+	const { client } = createTestClient({
+		auth,
+		plugins: [
+			opaquePluginClient({
+				breachedPasswordChecker: async (password) => {
+					checked.push(password);
+					return breached.has(password);
+				},
+			}),
+		],
+	});
+
+	const email = "policy@untraceable.dev";
+	const password = "Supersecure1password";
+
+	test("should publish the policy with Better Auth's length limits", async () => {
+		const { data } = await client.$fetch("/opaque/password-policy", {
+			method: "GET",
+		});
+		expect(data).toEqual({
+			minLength: 10,
+			maxLength: 128,
+			requireLowercase: false,
+			requireUppercase: true,
+			requireDigit: true,
+			requireSymbol: false,
+			minStrength: 2,
+			rejectBreached: true,
+		});
+	});
+
+	test("should reject an empty password before registering", async () => {
+		const { error } = await client.signUp.opaque({
+			email,
+			password: "",
+			name: "Policy",
+		});
+		expect(error?.code).toBe("PASSWORD_POLICY_VIOLATION");
+		expect(
+			(error as { issues?: { code: string }[] }).issues?.map(({ code }) => code),
+		).toEqual([
+			"PASSWORD_TOO_SHORT",
+			"PASSWORD_MISSING_UPPERCASE",
+			"PASSWORD_MISSING_DIGIT",
+			"PASSWORD_TOO_WEAK",
+		]);
+		expect(db.user).toHaveLength(0);
+	});
+
+	test("should only check for breaches once the rest passes", async () => {
+		await client.signUp.opaque({ email, password: "short", name: "Policy" });
+		expect(checked).toHaveLength(0);
+
+		const { error } = await client.signUp.opaque({
+			email,
+			password: "Password1!breached",
+			name: "Policy",
+		});
+		expect(
+			(error as { issues?: { code: string }[] }).issues?.map(({ code }) => code),
+		).toEqual(["PASSWORD_BREACHED"]);
+		expect(checked).toEqual(["Password1!breached"]);
+		expect(db.user).toHaveLength(0);
+	});
+
+	test("should register a password that follows the policy", async () => {
+		const { error } = await client.signUp.opaque({
+			email,
+			password,
+			name: "Policy",
+		});
+		expect(error).toBeNull();
+		expect(db.user).toHaveLength(1);
+	});
+
+	test("should apply the policy to password changes", async () => {
+		await client.signIn.opaque({ email, password });
+
+		const { error } = await client.changePassword.opaque({
+			currentPassword: password,
+			newPassword: "nouppercase1",
+		});
+		expect(error?.code).toBe("PASSWORD_POLICY_VIOLATION");
+
+		const changed = await client.changePassword.opaque({
+			currentPassword: password,
+			newPassword: "Evenmoresecure2password",
+		});
+		expect(changed.error).toBeNull();
+	});
+
+	test("should score passwords by their estimated entropy", () => {
+		expect(scorePasswordStrength("")).toBe(0);
+		expect(scorePasswordStrength("aaaaaaaaaaaaaaaa")).toBe(0);
+		expect(scorePasswordStrength("password")).toBe(2);
+		expect(scorePasswordStrength("Supersecure1password")).toBe(3);
+		expect(scorePasswordStrength("correct horse battery staple, Tr0ub4dor&3")).toBe(4);
+	});
+});
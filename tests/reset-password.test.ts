@@ -0,0 +1,91 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("password reset", async () => {
+	await ready;
+
+	const resetTokens = new Map<string, string>();
+	const auth = createTestAuth({
+		emailAndPassword: {
+			enabled: true,
+			sendResetPassword: async ({ user, token }) => {
+				resetTokens.set(user.email, token);
+			},
+		},
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				bruteForceProtection: { freeAttempts: 2, maxAttempts: 2, lockoutDuration: 60 },
+			}),
+		],
+	});
+	const { client } = createTestClient({
+		auth,
+		plugins: [opaquePluginClient()],
+	});
+
+	const email = "reset@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should only let one of two resets with the same token through", async () => {
+		await client.signUp.opaque({ email, password, name: "Reset User" });
+		await client.forgetPassword.opaque({ email });
+		const token = resetTokens.get(email) as string;
+
+		const newPasswords = ["firstnewpassword", "secondnewpassword"];
+		const resets = await Promise.all(
+			newPasswords.map((newPassword) =>
+				client.resetPassword.opaque({ token, newPassword }),
+			),
+		);
+		const succeeded = resets.filter((reset) => reset.data?.status);
+		expect(succeeded).toHaveLength(1);
+
+		const logins = await Promise.all(
+			newPasswords.map((newPassword) =>
+				client.signIn.opaque({ email, password: newPassword }),
+			),
+		);
+		expect(logins.map((login) => login.data?.success === true)).toEqual(
+			resets.map((reset) => reset.data?.status === true),
+		);
+	});
+
+	test("should lift a lockout once the password is reset", async () => {
+		const lockedEmail = "locked@untraceable.dev";
+		await client.signUp.opaque({ email: lockedEmail, password, name: "Locked User" });
+		// Proofs that can't verify, as an attacker guessing the password sends
+		for (let attempt = 0; attempt < 2; attempt++) {
+			const { startLoginRequest } = opaqueClient.startLogin({ password: "guess" });
+			const challenge = await client.$fetch<{ state: string }>(
+				"/sign-in/opaque/challenge",
+				{ method: "POST", body: { email: lockedEmail, loginRequest: startLoginRequest } },
+			);
+			const failed = await client.$fetch("/sign-in/opaque/complete", {
+				method: "POST",
+				body: {
+					email: lockedEmail,
+					loginResult: startLoginRequest,
+					encryptedServerState: challenge.data?.state,
+				},
+			});
+			expect(failed.error?.status).toBe(401);
+		}
+		const locked = await client.signIn.opaque({ email: lockedEmail, password });
+		expect(locked.error?.status).toBe(429);
+
+		await client.forgetPassword.opaque({ email: lockedEmail });
+		const newPassword = "resetnewpassword";
+		const reset = await client.resetPassword.opaque({
+			token: resetTokens.get(lockedEmail) as string,
+			newPassword,
+		});
+		expect(reset.data?.status).toBe(true);
+
+		const login = await client.signIn.opaque({ email: lockedEmail, password: newPassword });
+		expect(login.data?.success).toBe(true);
+	});
+});
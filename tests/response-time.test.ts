@@ -0,0 +1,109 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+const median = (values: number[]) => {
+	const sorted = [...values].sort((a, b) => a - b);
+	return sorted[Math.floor(sorted.length / 2)] as number;
+};
+
+describe("response time", async () => {
+	await ready;
+
+	const minimum = 150;
+	const jitter = 20;
+	const samples = 6;
+
+	const auth = createTestAuth({
+		emailAndPassword: {
+			enabled: false,
+			// A slow mail provider
+			sendResetPassword: () =>
+				new Promise((resolve) => setTimeout(resolve, minimum * 2)),
+		},
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				responseTime: { minimum, jitter },
+			}),
+		],
+	});
+
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const password = "supersecurepassword";
+
+	// Times only the completion step, where the user is created
+	const timeRegistration = async (email: string) => {
+		const { clientRegistrationState, registrationRequest } =
+			opaqueClient.startRegistration({ password });
+		const { data } = await client.$fetch<{ challenge: string }>(
+			"/sign-up/opaque/challenge",
+			{ method: "POST", body: { email, registrationRequest } },
+		);
+		const { registrationRecord } = opaqueClient.finishRegistration({
+			clientRegistrationState,
+			password,
+			registrationResponse: data?.challenge as string,
+		});
+
+		const start = performance.now();
+		const { error } = await client.$fetch("/sign-up/opaque/complete", {
+			method: "POST",
+			body: { email, name: "Timing", registrationRecord },
+		});
+		const elapsed = performance.now() - start;
+		expect(error).toBeNull();
+		return elapsed;
+	};
+
+	test("should take as long for new and existing emails", async () => {
+		const existing = "existing@untraceable.dev";
+		await client.signUp.opaque({ email: existing, password, name: "Timing" });
+
+		const newTimes: number[] = [];
+		const existingTimes: number[] = [];
+		for (let i = 0; i < samples; i++) {
+			newTimes.push(await timeRegistration(`new-${i}@untraceable.dev`));
+			existingTimes.push(await timeRegistration(existing));
+		}
+
+		for (const elapsed of [...newTimes, ...existingTimes]) {
+			expect(elapsed).toBeGreaterThanOrEqual(minimum - 1);
+		}
+		expect(Math.abs(median(newTimes) - median(existingTimes))).toBeLessThan(
+			jitter + 10,
+		);
+	}, 30_000);
+
+	test("should not wait for the reset email to be sent", async () => {
+		const timeReset = async (email: string) => {
+			const start = performance.now();
+			const { error } = await client.forgetPassword.opaque({ email });
+			expect(error).toBeNull();
+			return performance.now() - start;
+		};
+
+		const existing = await timeReset("existing@untraceable.dev");
+		const unknown = await timeReset("unknown@untraceable.dev");
+		expect(unknown).toBeGreaterThanOrEqual(minimum - 1);
+		expect(existing).toBeLessThan(minimum * 2);
+		expect(Math.abs(existing - unknown)).toBeLessThan(jitter + 10);
+	});
+
+	test("should pad failed requests too", async () => {
+		const start = performance.now();
+		const { error } = await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email: "existing@untraceable.dev",
+				loginResult: Buffer.alloc(64).toString("base64url"),
+				encryptedServerState: "not-a-state",
+			},
+		});
+		expect(error?.status).toBe(400);
+		expect(performance.now() - start).toBeGreaterThanOrEqual(minimum - 1);
+	});
+});
@@ -0,0 +1,142 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("server key rotation", async () => {
+	await ready;
+
+	// Shared between both auth instances, as a real database would be
+	const db = {
+		user: [],
+		account: [],
+		session: [],
+		verification: [],
+	};
+	const oldKey = { id: "2024", key: server.createSetup() };
+	const newKey = { id: "2025", key: server.createSetup() };
+
+	const createRotationTest = (keys: { id: string; key: string }[]) => {
+		const auth = createTestAuth({
+			db,
+			plugins: [opaque({ OPAQUE_SERVER_KEY: keys })],
+		});
+		const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+		return { auth, client };
+	};
+
+	const email = "rotation@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should log in with a record under an older key and migrate it", async () => {
+		const before = createRotationTest([oldKey]);
+		const signUp = await before.client.signUp.opaque({ email, password, name: "Rotation User" });
+
+		const after = createRotationTest([newKey, oldKey]);
+		const beforeUsage = await after.auth.api.getOpaqueKeyUsage();
+		expect(beforeUsage.keys).toEqual([
+			{ id: "2025", current: true, accounts: 0 },
+			{ id: "2024", current: false, accounts: 1 },
+		]);
+
+		const login = await after.client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+		// Re-registering changes the export key, the old one is handed back once
+		expect(login.data?.previousExportKey).toBe(signUp.data?.exportKey);
+		expect(login.data?.exportKey).not.toBe(signUp.data?.exportKey);
+
+		const afterUsage = await after.auth.api.getOpaqueKeyUsage();
+		expect(afterUsage.keys).toEqual([
+			{ id: "2025", current: true, accounts: 1 },
+			{ id: "2024", current: false, accounts: 0 },
+		]);
+
+		// The old key can now be retired
+		const retired = createRotationTest([newKey]);
+		const retiredLogin = await retired.client.signIn.opaque({ email, password });
+		expect(retiredLogin.data?.success).toBe(true);
+		expect(retiredLogin.data?.exportKey).toBe(login.data?.exportKey);
+		expect(retiredLogin.data?.previousExportKey).toBeUndefined();
+	});
+
+	test("should only accept a rekey token once, in the session it was issued for", async () => {
+		const rekeyEmail = "rekey@untraceable.dev";
+		await createRotationTest([oldKey]).client.signUp.opaque({
+			email: rekeyEmail,
+			password,
+			name: "Rekey User",
+		});
+
+		// Signs in without the client's silent re-registration
+		const signIn = async () => {
+			const { client } = createRotationTest([newKey, oldKey]);
+			const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({ password });
+			const challenge = await client.$fetch<{
+				challenge: string;
+				state: string;
+				keyStretching: Parameters<typeof opaqueClient.finishLogin>[0]["keyStretching"];
+			}>("/sign-in/opaque/challenge", {
+				method: "POST",
+				body: { email: rekeyEmail, loginRequest: startLoginRequest },
+			});
+			const { keyStretching } = challenge.data!;
+			const loginAttempt = opaqueClient.finishLogin({
+				password,
+				clientLoginState,
+				loginResponse: challenge.data!.challenge,
+				keyStretching,
+			});
+			const login = await client.$fetch<{ rekey?: { token: string } }>(
+				"/sign-in/opaque/complete",
+				{
+					method: "POST",
+					body: {
+						email: rekeyEmail,
+						loginResult: loginAttempt!.finishLoginRequest,
+						encryptedServerState: challenge.data!.state,
+					},
+				},
+			);
+			return { client, keyStretching, token: login.data?.rekey?.token as string };
+		};
+
+		const { client, keyStretching, token } = await signIn();
+		expect(token).toBeString();
+
+		const rekey = async (via = client) => {
+			const { clientRegistrationState, registrationRequest } =
+				opaqueClient.startRegistration({ password });
+			const rekeyChallenge = await via.$fetch<{ challenge: string }>(
+				"/opaque/rekey/challenge",
+				{ method: "POST", body: { token, registrationRequest } },
+			);
+			if (rekeyChallenge.error) {
+				return rekeyChallenge;
+			}
+			const { registrationRecord } = opaqueClient.finishRegistration({
+				password,
+				clientRegistrationState,
+				registrationResponse: rekeyChallenge.data.challenge,
+				keyStretching,
+			});
+			return await via.$fetch("/opaque/rekey/complete", {
+				method: "POST",
+				body: { token, registrationRecord },
+			});
+		};
+
+		const withoutSession = await rekey(createRotationTest([newKey, oldKey]).client);
+		expect(withoutSession.error?.status).toBe(401);
+
+		// Another session of the same user
+		const otherSession = await rekey((await signIn()).client);
+		expect(otherSession.error?.code).toBe("INVALID_REKEY_TOKEN");
+
+		const first = await rekey();
+		expect(first.error).toBeNull();
+
+		const replayed = await rekey();
+		expect(replayed.error?.code).toBe("INVALID_REKEY_TOKEN");
+	});
+});
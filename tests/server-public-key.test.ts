@@ -0,0 +1,79 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { type OpaqueClientOptions, opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { getOpaqueServerPublicKeys } from "../src/utils";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("server public key pinning", async () => {
+	await ready;
+
+	const currentKey = { id: "2025", key: server.createSetup() };
+	const oldKey = { id: "2024", key: server.createSetup() };
+	const auth = createTestAuth({
+		emailAndPassword: { enabled: true },
+		plugins: [opaque({ OPAQUE_SERVER_KEY: [currentKey, oldKey] })],
+	});
+
+	const requests: string[] = [];
+	const createPinnedClient = (options?: OpaqueClientOptions) =>
+		createTestClient({
+			auth: {
+				handler: (request) => {
+					requests.push(new URL(request.url).pathname);
+					return auth.handler(request);
+				},
+			},
+			plugins: [opaquePluginClient(options)],
+		}).client;
+
+	const email = "pinning@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should derive the public key of every server key", async () => {
+		const publicKeys = await getOpaqueServerPublicKeys([currentKey, oldKey]);
+		expect(publicKeys).toEqual([
+			{ id: "2025", publicKey: server.getPublicKey(currentKey.key) },
+			{ id: "2024", publicKey: server.getPublicKey(oldKey.key) },
+		]);
+
+		const { keys } = await auth.api.getOpaqueServerPublicKeys();
+		expect(keys).toEqual([
+			{ ...publicKeys[0], current: true },
+			{ ...publicKeys[1], current: false },
+		] as typeof keys);
+	});
+
+	test("should sign in when the key is pinned", async () => {
+		const client = createPinnedClient({
+			expectedServerPublicKey: [
+				server.getPublicKey(oldKey.key),
+				server.getPublicKey(currentKey.key),
+			],
+		});
+		await client.signUp.opaque({ email, password, name: "Pinned" });
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+	});
+
+	test("should not send the proof to a server with another key", async () => {
+		const client = createPinnedClient({
+			expectedServerPublicKey: server.getPublicKey(server.createSetup()),
+		});
+		requests.length = 0;
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.error?.code).toBe("SERVER_KEY_MISMATCH");
+		expect(requests).toEqual(["/api/auth/sign-in/opaque/challenge"]);
+	});
+
+	test("should not fall back to sending the password when the key is pinned", () => {
+		expect(() =>
+			opaquePluginClient({
+				expectedServerPublicKey: server.getPublicKey(currentKey.key),
+				credentialFallback: true,
+			}),
+		).toThrow("credentialFallback can't be used with expectedServerPublicKey");
+	});
+});
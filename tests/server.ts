@@ -4,11 +4,16 @@ import express from "express";
 import morgan from "morgan";
 import { opaque } from "../src/server";
 
+// Reset tokens by email, so tests can follow the emailed link
+const resetTokens = new Map<string, string>();
 
 const auth = betterAuth({
 	// database: mongodbAdapter(db),
 	emailAndPassword: {
 		enabled: true,
+		sendResetPassword: async ({ user, token }) => {
+			resetTokens.set(user.email, token);
+		},
 	},
 	plugins: [
 		opaque({
@@ -21,6 +26,9 @@ const auth = betterAuth({
 const app = express();
 
 app.use(morgan("dev"));
+app.get("/test/reset-token/:email", (req, res) => {
+	res.json({ token: resetTokens.get(req.params.email) ?? null });
+});
 app.all("/api/auth/*splat", toNodeHandler(auth)); // For ExpressJS v5
 app.use(express.json());
 
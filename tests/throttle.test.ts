@@ -0,0 +1,151 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import {
+	getLoginRetryAfter,
+	reserveLoginAttempt,
+	resolveBruteForceOptions,
+} from "../src/utils";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("login retry delay", () => {
+	const options = resolveBruteForceOptions({
+		freeAttempts: 2,
+		backoff: 1,
+		maxAttempts: 5,
+		lockoutDuration: 60,
+	});
+	const now = Date.now();
+
+	test("allows free attempts without delay", () => {
+		expect(getLoginRetryAfter(null, options, now)).toBe(0);
+		expect(
+			getLoginRetryAfter({ failures: 1, lastFailedAt: now }, options, now),
+		).toBe(0);
+	});
+
+	test("doubles the delay for every failure past the free attempts", () => {
+		expect(
+			getLoginRetryAfter({ failures: 2, lastFailedAt: now }, options, now),
+		).toBe(1);
+		expect(
+			getLoginRetryAfter({ failures: 3, lastFailedAt: now }, options, now),
+		).toBe(2);
+		expect(
+			getLoginRetryAfter({ failures: 4, lastFailedAt: now }, options, now),
+		).toBe(4);
+	});
+
+	test("locks out after the maximum attempts", () => {
+		expect(
+			getLoginRetryAfter({ failures: 5, lastFailedAt: now }, options, now),
+		).toBe(60);
+		expect(
+			getLoginRetryAfter(
+				{ failures: 5, lastFailedAt: now - 61 * 1000 },
+				options,
+				now,
+			),
+		).toBe(0);
+	});
+});
+
+describe("brute-force protection", async () => {
+	await ready;
+
+	const auth = createTestAuth({
+		plugins: [
+			opaque({
+				OPAQUE_SERVER_KEY: server.createSetup(),
+				bruteForceProtection: {
+					freeAttempts: 2,
+					maxAttempts: 2,
+					lockoutDuration: 60,
+				},
+			}),
+		],
+	});
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	// An attacker doesn't know the password, so it sends a proof that can't verify
+	const attemptBadLogin = async (email: string) => {
+		const { startLoginRequest } = opaqueClient.startLogin({
+			password: "guess",
+		});
+		const challenge = await client.$fetch<{ challenge: string; state: string }>(
+			"/sign-in/opaque/challenge",
+			{
+				method: "POST",
+				body: { email, loginRequest: startLoginRequest },
+			},
+		);
+		if (!challenge.data) {
+			return challenge;
+		}
+		return await client.$fetch("/sign-in/opaque/complete", {
+			method: "POST",
+			body: {
+				email,
+				loginResult: startLoginRequest,
+				encryptedServerState: challenge.data.state,
+			},
+		});
+	};
+
+	test("locks out registered and unregistered emails alike", async () => {
+		const registered = "throttle@untraceable.dev";
+		const unregistered = "throttle-unknown@untraceable.dev";
+		const password = "supersecurepassword";
+		await client.signUp.opaque({
+			email: registered,
+			password,
+			name: "Throttle User",
+		});
+
+		for (const email of [registered, unregistered]) {
+			expect((await attemptBadLogin(email)).error?.status).toBe(401);
+			expect((await attemptBadLogin(email)).error?.status).toBe(401);
+		}
+
+		const registeredLocked = await attemptBadLogin(registered);
+		const unregisteredLocked = await attemptBadLogin(unregistered);
+		expect(registeredLocked.error?.status).toBe(429);
+		expect(registeredLocked.error).toEqual(unregisteredLocked.error);
+
+		// The correct password doesn't get through a lockout either
+		const login = await client.signIn.opaque({ email: registered, password });
+		expect(login.data).toBeNull();
+	});
+
+	test("counts attempts made at once", async () => {
+		const context = await auth.$context;
+		// Reads come back late, so every attempt starts before any finishes
+		const adapter = {
+			...context.adapter,
+			findMany: (async (data) => {
+				const rows = await context.adapter.findMany(data);
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				return rows;
+			}) as typeof context.adapter.findMany,
+		};
+		const options = resolveBruteForceOptions({
+			freeAttempts: 2,
+			maxAttempts: 2,
+			lockoutDuration: 60,
+		});
+		// Like completions of challenges all fetched before the lockout
+		const attempts = await Promise.allSettled(
+			Array.from({ length: 6 }, () =>
+				reserveLoginAttempt(
+					{ context: { ...context, adapter } },
+					"throttle-concurrent@untraceable.dev",
+					options,
+				),
+			),
+		);
+		expect(
+			attempts.filter((attempt) => attempt.status === "fulfilled").length,
+		).toBeLessThanOrEqual(2);
+	});
+});
@@ -0,0 +1,127 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { twoFactor } from "better-auth/plugins";
+import { twoFactorClient } from "better-auth/client/plugins";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+describe("two-factor sign-in", async () => {
+	await ready;
+
+	const sentOTPs: string[] = [];
+	const db = { ...createMemoryDatabase(), twoFactor: [] };
+	const serverKey = server.createSetup();
+	const createTwoFactorAuth = (OPAQUE_SERVER_KEY: Parameters<typeof opaque>[0]["OPAQUE_SERVER_KEY"]) =>
+		createTestAuth({
+			db,
+			plugins: [
+				opaque({ OPAQUE_SERVER_KEY }),
+				twoFactor({
+					otpOptions: {
+						sendOTP: async ({ otp }) => {
+							sentOTPs.push(otp);
+						},
+					},
+				}),
+			],
+		});
+	const auth = createTwoFactorAuth(serverKey);
+
+	let redirected = false;
+	const { client, cookies } = createTestClient({
+		auth,
+		plugins: [
+			opaquePluginClient(),
+			twoFactorClient({
+				onTwoFactorRedirect: () => {
+					redirected = true;
+				},
+			}),
+		],
+	});
+
+	const email = "2fa@untraceable.dev";
+	const password = "supersecurepassword";
+
+	test("should ask for a second factor instead of signing in", async () => {
+		await client.signUp.opaque({ email, password, name: "Two Factor" });
+		const { internalAdapter } = await auth.$context;
+		const user = await internalAdapter.findUserByEmail(email);
+		await internalAdapter.updateUser(user!.user.id, { twoFactorEnabled: true });
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.error).toBeNull();
+		expect(login.data?.twoFactorRedirect).toBe(true);
+		expect(login.data).not.toHaveProperty("token");
+		expect(redirected).toBe(true);
+		expect(cookies.names().some((name) => name.endsWith("two_factor"))).toBe(true);
+		expect(cookies.names().some((name) => name.endsWith("session_token"))).toBe(false);
+	});
+
+	test("should sign in once the second factor is verified", async () => {
+		await client.twoFactor.sendOtp();
+		expect(sentOTPs).toHaveLength(1);
+
+		const verified = await client.twoFactor.verifyOtp({
+			code: sentOTPs[0],
+			trustDevice: true,
+		});
+		expect(verified.error).toBeNull();
+		expect(cookies.names().some((name) => name.endsWith("session_token"))).toBe(true);
+
+		const session = await client.getSession();
+		expect(session.data?.user.email).toBe(email);
+	});
+
+	test("should skip the second factor on a trusted device", async () => {
+		for (const name of cookies.names()) {
+			if (!name.endsWith("trust_device")) {
+				cookies.delete(name);
+			}
+		}
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+		expect(sentOTPs).toHaveLength(1);
+	});
+
+	test("should only re-register under a new server key once signed in", async () => {
+		const rotated = createTwoFactorAuth([
+			{ id: "next", key: server.createSetup() },
+			{ id: "default", key: serverKey },
+		]);
+		const { client: untrustedClient } = createTestClient({
+			auth: rotated,
+			plugins: [opaquePluginClient(), twoFactorClient()],
+		});
+
+		const login = await untrustedClient.signIn.opaque({ email, password });
+		expect(login.data?.twoFactorRedirect).toBe(true);
+		expect(login.data).not.toHaveProperty("rekey");
+		expect(login.data?.previousExportKey).toBeUndefined();
+
+		// The token comes with the session, from the second factor
+		await untrustedClient.twoFactor.sendOtp();
+		const verified = await untrustedClient.twoFactor.verifyOtp({
+			code: sentOTPs.at(-1) as string,
+		});
+		const { rekey } = verified.data as { rekey?: { token: string } };
+		expect(rekey?.token).toBeString();
+
+		const rekeyed = await untrustedClient.rekey.opaque({
+			token: rekey!.token,
+			password,
+			exportKey: login.data!.exportKey,
+		});
+		expect(rekeyed.error).toBeNull();
+		expect(rekeyed.data?.previousExportKey).toBe(login.data!.exportKey);
+		expect(rekeyed.data?.exportKey).not.toBe(login.data!.exportKey);
+
+		const usage = await rotated.api.getOpaqueKeyUsage();
+		expect(usage.keys).toEqual([
+			{ id: "next", current: true, accounts: 1 },
+			{ id: "default", current: false, accounts: 0 },
+		]);
+	});
+});
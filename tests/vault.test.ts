@@ -0,0 +1,156 @@
+import { client as opaqueClient, ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+describe("key vault", async () => {
+	await ready;
+
+	const db = {
+		...createMemoryDatabase(),
+		opaqueVault: [] as { ciphertext: string; version: number }[],
+	};
+	const serverSetup = server.createSetup();
+
+	const createVaultClient = (OPAQUE_SERVER_KEY: Parameters<typeof opaque>[0]["OPAQUE_SERVER_KEY"]) => {
+		const auth = createTestAuth({
+			db,
+			plugins: [opaque({ OPAQUE_SERVER_KEY, vault: true })],
+		});
+		return createTestClient({ auth, plugins: [opaquePluginClient()] }).client;
+	};
+	const client = createVaultClient(serverSetup);
+
+	const email = "vault@untraceable.dev";
+	const password = "supersecurepassword";
+	const newPassword = "evenmoresecurepassword";
+	const secret = JSON.stringify({ notesKey: "wrapped-data-key" });
+
+	test("should store only ciphertext and read it back", async () => {
+		await client.signUp.opaque({ email, password, name: "Vault User" });
+		const { data } = await client.signIn.opaque({ email, password });
+		const exportKey = data?.exportKey as string;
+
+		const empty = await client.getVault.opaque({ exportKey });
+		expect(empty.data).toEqual({ data: null, version: 0 });
+
+		const put = await client.putVault.opaque({ exportKey, data: secret, version: 0 });
+		expect(put.data?.version).toBe(1);
+		expect(db.opaqueVault[0]?.ciphertext).not.toContain("wrapped-data-key");
+
+		const vault = await client.getVault.opaque({ exportKey });
+		expect(vault.data).toEqual({ data: secret, version: 1 });
+	});
+
+	test("should reject writes based on an outdated version", async () => {
+		const { data } = await client.signIn.opaque({ email, password });
+		const exportKey = data?.exportKey as string;
+
+		const stale = await client.putVault.opaque({ exportKey, data: "stale", version: 0 });
+		expect(stale.error?.status).toBe(409);
+		expect(db.opaqueVault[0]?.version).toBe(1);
+	});
+
+	test("should not change the password without re-wrapping the vault", async () => {
+		const { clientLoginState, startLoginRequest } = opaqueClient.startLogin({
+			password,
+		});
+		const { clientRegistrationState, registrationRequest } =
+			opaqueClient.startRegistration({ password: newPassword });
+		const challenge = await client.$fetch<{
+			challenge: string;
+			state: string;
+			registrationChallenge: string;
+			vault?: { ciphertext: string; version: number };
+		}>("/opaque/change-password/challenge", {
+			method: "POST",
+			body: { loginRequest: startLoginRequest, registrationRequest },
+		});
+		if (!challenge.data) {
+			throw new Error("No data returned from change password challenge");
+		}
+		expect(challenge.data.vault?.version).toBe(1);
+
+		const loginAttempt = opaqueClient.finishLogin({
+			password,
+			clientLoginState,
+			loginResponse: challenge.data.challenge,
+		});
+		const { registrationRecord } = opaqueClient.finishRegistration({
+			clientRegistrationState,
+			password: newPassword,
+			registrationResponse: challenge.data.registrationChallenge,
+		});
+		const complete = await client.$fetch("/opaque/change-password/complete", {
+			method: "POST",
+			body: {
+				loginResult: loginAttempt?.finishLoginRequest,
+				encryptedServerState: challenge.data.state,
+				registrationRecord,
+			},
+		});
+		expect(complete.error?.status).toBe(400);
+
+		const login = await client.signIn.opaque({ email, password });
+		expect(login.data?.success).toBe(true);
+	});
+
+	test("should re-wrap the vault when the password changes", async () => {
+		const changed = await client.changePassword.opaque({
+			currentPassword: password,
+			newPassword,
+		});
+		expect(changed.error).toBeNull();
+		expect(changed.data?.previousExportKey).not.toBe(changed.data?.exportKey);
+
+		// The returned key reads the vault without signing in again
+		const changedVault = await client.getVault.opaque({
+			exportKey: changed.data?.exportKey as string,
+		});
+		expect(changedVault.data).toEqual({ data: secret, version: 2 });
+
+		const { data } = await client.signIn.opaque({ email, password: newPassword });
+		expect(data?.exportKey).toBe(changed.data?.exportKey as string);
+	});
+
+	test("should rotate the vault to another key", async () => {
+		const { data } = await client.signIn.opaque({ email, password: newPassword });
+		const exportKey = data?.exportKey as string;
+		const otherKey = data?.sessionKey as string;
+
+		const rotated = await client.rotateVault.opaque({
+			previousExportKey: exportKey,
+			exportKey: otherKey,
+		});
+		expect(rotated.data?.version).toBe(3);
+
+		const vault = await client.getVault.opaque({ exportKey: otherKey });
+		expect(vault.data).toEqual({ data: secret, version: 3 });
+		const wrongKey = await client.getVault.opaque({ exportKey });
+		expect(wrongKey.error).not.toBeNull();
+
+		const restored = await client.rotateVault.opaque({
+			previousExportKey: otherKey,
+			exportKey,
+		});
+		expect(restored.data?.version).toBe(4);
+	});
+
+	test("should re-wrap the vault when the record moves to a new server key", async () => {
+		const { data } = await client.signIn.opaque({ email, password: newPassword });
+		const exportKey = data?.exportKey as string;
+
+		const rotatedClient = createVaultClient([
+			{ id: "next", key: server.createSetup() },
+			{ id: "default", key: serverSetup },
+		]);
+		const login = await rotatedClient.signIn.opaque({ email, password: newPassword });
+		expect(login.data?.previousExportKey).toBe(exportKey);
+
+		const vault = await rotatedClient.getVault.opaque({
+			exportKey: login.data?.exportKey as string,
+		});
+		expect(vault.data).toEqual({ data: secret, version: 5 });
+	});
+});
@@ -0,0 +1,55 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { createTestAuth, createTestClient } from "./helpers";
+
+describe("email verification", async () => {
+	await ready;
+
+	const sentTokens = new Map<string, string>();
+	const auth = createTestAuth({
+		emailAndPassword: {
+			enabled: true,
+			requireEmailVerification: true,
+		},
+		emailVerification: {
+			sendVerificationEmail: async ({ user, token }) => {
+				sentTokens.set(user.email, token);
+			},
+		},
+		plugins: [opaque({ OPAQUE_SERVER_KEY: server.createSetup() })],
+	});
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "verify@untraceable.dev";
+	const password = "supersecurepassword";
+	let verificationToken = "";
+
+	test("should only send a verification email to new users", async () => {
+		const first = await client.signUp.opaque({ email, password, name: "Verify" });
+		// Sending is not awaited by the endpoint
+		await Bun.sleep(50);
+		verificationToken = sentTokens.get(email) ?? "";
+		expect(verificationToken).not.toBe("");
+
+		sentTokens.delete(email);
+		const second = await client.signUp.opaque({ email, password, name: "Verify" });
+		await Bun.sleep(50);
+		expect(sentTokens.has(email)).toBe(false);
+		// Only the locally derived export key differs
+		const { exportKey: _firstKey, ...firstResponse } = first.data ?? {};
+		const { exportKey: _secondKey, ...secondResponse } = second.data ?? {};
+		expect(secondResponse).toEqual(firstResponse);
+	});
+
+	test("should refuse to sign in until the email is verified", async () => {
+		const unverified = await client.signIn.opaque({ email, password });
+		expect(unverified.error?.status).toBe(403);
+
+		await auth.api.verifyEmail({ query: { token: verificationToken } });
+		const verified = await client.signIn.opaque({ email, password });
+		expect(verified.error).toBeNull();
+		expect(verified.data?.success).toBe(true);
+	});
+});
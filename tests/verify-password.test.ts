@@ -0,0 +1,58 @@
+import { ready, server } from "@serenity-kit/opaque";
+import { describe, expect, test } from "bun:test";
+import { opaqueClient as opaquePluginClient } from "../src/client";
+import { opaque } from "../src/server";
+import { isPasswordRecentlyVerified } from "../src/utils";
+import { createMemoryDatabase, createTestAuth, createTestClient } from "./helpers";
+
+describe("password verification", async () => {
+	await ready;
+
+	const db = createMemoryDatabase();
+	const auth = createTestAuth({
+		db,
+		session: {
+			cookieCache: { enabled: true },
+		},
+		plugins: [opaque({ OPAQUE_SERVER_KEY: server.createSetup() })],
+	});
+
+	const { client } = createTestClient({ auth, plugins: [opaquePluginClient()] });
+
+	const email = "step-up@untraceable.dev";
+	const password = "supersecurepassword";
+
+	const getSession = async () => {
+		const session = await client.getSession();
+		if (!session.data) {
+			throw new Error("Not signed in");
+		}
+		return session.data.session;
+	};
+
+	test("should require a session", async () => {
+		const result = await client.verifyPassword.opaque({ password });
+		expect(result.error?.status).toBe(401);
+	});
+
+	test("should not mark the session for a wrong password", async () => {
+		await client.signUp.opaque({ email, password, name: "Step Up" });
+		await client.signIn.opaque({ email, password });
+
+		const result = await client.verifyPassword.opaque({ password: "wrongpassword" });
+		expect(result.error).not.toBeNull();
+		expect(isPasswordRecentlyVerified(await getSession())).toBe(false);
+	});
+
+	test("should mark the current session without creating a new one", async () => {
+		const sessionCount = db.session.length;
+
+		const result = await client.verifyPassword.opaque({ password });
+		expect(result.data?.success).toBe(true);
+		expect(db.session).toHaveLength(sessionCount);
+
+		const session = await getSession();
+		expect(isPasswordRecentlyVerified(session)).toBe(true);
+		expect(isPasswordRecentlyVerified(session, -1)).toBe(false);
+	});
+});